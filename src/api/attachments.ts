@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { randomUUID } from 'node:crypto';
+import { BadRequestError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import { storage } from '../storage.js';
+import {
+    imageTypes,
+    processImage,
+    removeAttachmentFiles,
+} from '../attachments.js';
+import {
+    createAttachment,
+    toAttachmentResponse,
+} from '../db/queries/attachments.js';
+
+// Stores an uploaded image and its thumbnail. The upload stays private to
+// its owner until it is attached to a chirp with attachmentIds.
+export async function handlerUploadAttachment(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    if (!req.file) {
+        throw new BadRequestError('file is required', 'file_required');
+    }
+    const image = await processImage(req.file.buffer);
+
+    const id = randomUUID();
+    const keys = {
+        storageKey: `${id}.${imageTypes[image.contentType]}`,
+        thumbnailKey: `${id}-thumb.webp`,
+    };
+    try {
+        await storage.put(keys.storageKey, image.data, image.contentType);
+        await storage.put(keys.thumbnailKey, image.thumbnail, 'image/webp');
+        const attachment = await createAttachment({
+            id,
+            userId,
+            contentType: image.contentType,
+            size: image.data.length,
+            width: image.width,
+            height: image.height,
+            ...keys,
+        });
+        res.status(201).json(toAttachmentResponse(attachment));
+    } catch (error) {
+        await removeAttachmentFiles([keys]);
+        throw error;
+    }
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeAll } from 'vitest';
-import { hashPassword, makeJWT, validateJWT, verifyPassword } from './auth';
+import {
+    hasRole,
+    hashPassword,
+    makeJWT,
+    signWebhookPayload,
+    validateJWT,
+    validateJWTClaims,
+    verifyPassword,
+    verifyWebhookSignature,
+} from './auth';
 
 describe('Password Hashing', () => {
     const password1 = 'correctPassword123!';
@@ -50,3 +59,76 @@ describe('JWT Token Validation', () => {
         expect(() => validateJWT(token, 'wrongSecret')).toThrow();
     });
 });
+
+describe('JWT Role Claim', () => {
+    const userId = '123';
+    const secret = 'testSecret';
+    const expiresIn = 3600;
+
+    it('should include the role in the token', () => {
+        const token = makeJWT(userId, expiresIn, secret, 'moderator');
+        const claims = validateJWTClaims(token, secret);
+        expect(claims).toEqual({ userId, role: 'moderator', plan: 'free' });
+    });
+
+    it('should include the plan in the token', () => {
+        const token = makeJWT(userId, expiresIn, secret, 'user', 'red');
+        expect(validateJWTClaims(token, secret).plan).toBe('red');
+    });
+
+    it('should default to the user role', () => {
+        const token = makeJWT(userId, expiresIn, secret);
+        expect(validateJWTClaims(token, secret).role).toBe('user');
+    });
+});
+
+describe('Role Hierarchy', () => {
+    it('should let higher roles act as lower roles', () => {
+        expect(hasRole('admin', 'moderator')).toBe(true);
+        expect(hasRole('moderator', 'moderator')).toBe(true);
+    });
+
+    it('should not let lower roles act as higher roles', () => {
+        expect(hasRole('user', 'moderator')).toBe(false);
+        expect(hasRole('moderator', 'admin')).toBe(false);
+    });
+});
+
+describe('Webhook Signatures', () => {
+    const body = Buffer.from('{"id":"evt_1","event":"user.upgraded"}');
+    const now = 1_700_000_000_000;
+    const timestamp = now / 1000;
+    const header = (secret: string, t = timestamp) =>
+        `t=${t},v1=${signWebhookPayload(body, secret, t)}`;
+    const verify = (value: string | undefined, secrets = ['current']) =>
+        verifyWebhookSignature(value, body, secrets, 300, now);
+
+    it('should accept a signature made with any configured secret', () => {
+        expect(() => verify(header('current'))).not.toThrow();
+        expect(() =>
+            verify(header('previous'), ['current', 'previous']),
+        ).not.toThrow();
+    });
+
+    it('should reject a missing, malformed or wrong signature', () => {
+        expect(() => verify(undefined)).toThrow('Missing webhook signature');
+        expect(() => verify('v1=abc')).toThrow('Malformed webhook signature');
+        expect(() => verify(header('other'))).toThrow(
+            'Invalid webhook signature',
+        );
+    });
+
+    it('should reject a signature over a different body', () => {
+        const signature = signWebhookPayload('{}', 'current', timestamp);
+        expect(() => verify(`t=${timestamp},v1=${signature}`)).toThrow(
+            'Invalid webhook signature',
+        );
+    });
+
+    it('should reject timestamps outside the tolerance', () => {
+        expect(() => verify(header('current', timestamp - 301))).toThrow(
+            'outside the tolerance',
+        );
+        expect(() => verify(header('current', timestamp - 299))).not.toThrow();
+    });
+});
@@ -1,17 +1,31 @@
 import bcrypt from 'bcrypt';
-import { BadRequestError, NotFoundError, UnauthorizedError } from './errors.js';
-import { getUserByEmail } from '../db/queries/users.js';
+import {
+    BadRequestError,
+    ForbiddenError,
+    NotFoundError,
+    UnauthorizedError,
+} from './errors.js';
+import { getUserByEmail, getUserById } from '../db/queries/users.js';
 import { Request, Response } from 'express';
-import { type NewUser } from '../db/schema.js';
+import { type NewUser, type Role, userRole } from '../db/schema.js';
 import { JwtPayload } from 'jsonwebtoken';
 import jwt from 'jsonwebtoken';
 import { config } from '../config.js';
 import crypto from 'node:crypto';
 import {
     createRefreshToken,
-    getUserFromRefreshToken,
-    revokeRefreshToken,
+    getRefreshToken,
+    revokeRefreshTokenFamily,
+    rotateRefreshToken,
 } from '../db/queries/tokens.js';
+import { assertLoginAllowed, recordAttempt } from './loginAttempts.js';
+import {
+    entitlementsOf,
+    planOf,
+    plans,
+    type Entitlements,
+    type Plan,
+} from './entitlements.js';
 
 export async function hashPassword(password: string): Promise<string> {
     const saltRounds = 10;
@@ -19,6 +33,10 @@ export async function hashPassword(password: string): Promise<string> {
     return hashedPassword;
 }
 
+// Compared against when the email is unknown, so those logins take as long
+// as a wrong password and do not reveal which emails have accounts
+let dummyPasswordHash: Promise<string> | undefined;
+
 export async function verifyPassword(
     password: string,
     hash: string,
@@ -31,11 +49,17 @@ export function makeJWT(
     userId: string,
     expiresIn: number,
     secret: string,
+    role: Role = 'user',
+    plan: Plan = 'free',
 ): string {
     // iss is the issuer of the token.
     // sub is the subject of the token = user id
     // iat is the time the token was issued.
     // exp is the time the token expires.
+    // role is the user's role when the token was issued. middlewareRequireRole
+    // checks the current one.
+    // plan is likewise the plan at issue time. It only sizes the rate limit
+    // buckets, handlers check the current plan.
 
     const iat = Math.floor(Date.now() / 1000); // get current time in seconds
     const exp = iat + expiresIn;
@@ -44,12 +68,23 @@ export function makeJWT(
         sub: userId,
         iat: iat,
         exp: exp,
+        role: role,
+        plan: plan,
     };
     const token = jwt.sign(payload, secret);
     return token;
 }
 
 export function validateJWT(tokenString: string, secret: string): string {
+    return validateJWTClaims(tokenString, secret).userId;
+}
+
+// Like validateJWT but also returns the role and plan claims. Tokens issued
+// before those existed are treated as regular users on the free plan.
+export function validateJWTClaims(
+    tokenString: string,
+    secret: string,
+): TokenClaims {
     try {
         const payload = jwt.verify(tokenString, secret) as JwtPayload;
 
@@ -58,10 +93,16 @@ export function validateJWT(tokenString: string, secret: string): string {
             throw new UnauthorizedError('Invalid token: missing user ID');
         }
 
-        return payload.sub; // Return the user's ID
+        const role = userRole.enumValues.includes(payload.role)
+            ? (payload.role as Role)
+            : 'user';
+        const plan = plans.includes(payload.plan)
+            ? (payload.plan as Plan)
+            : 'free';
+        return { userId: payload.sub, role, plan };
     } catch (error) {
         if (error instanceof jwt.TokenExpiredError) {
-            throw new UnauthorizedError('Token has expired');
+            throw new UnauthorizedError('Token has expired', 'token_expired');
         } else if (error instanceof jwt.JsonWebTokenError) {
             throw new UnauthorizedError('Invalid token');
         }
@@ -77,38 +118,160 @@ export function getBearerToken(req: Request): string {
     return authHeader.split(' ')[1];
 }
 
-export function getAPIKey(req: Request): string {
-    const authHeader = req.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('ApiKey ')) {
-        throw new UnauthorizedError('Missing or invalid authorization header');
+// For endpoints that work anonymously but personalize the response when a
+// valid access token is sent. A malformed or expired token is still a 401.
+export function getOptionalUserId(req: Request): string | undefined {
+    if (!req.get('Authorization')) {
+        return undefined;
     }
-    return authHeader.split(' ')[1];
+    return validateJWT(getBearerToken(req), config.api.jwtSecret);
+}
+
+// Webhook senders sign `${timestamp}.${body}` with HMAC-SHA256 and send
+// `t=<unix seconds>,v1=<hex signature>`. Several v1 entries are allowed so the
+// sender can sign with an old and a new secret during a rotation.
+export function signWebhookPayload(
+    payload: Buffer | string,
+    secret: string,
+    timestamp: number,
+): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.`)
+        .update(payload)
+        .digest('hex');
 }
+
+export function verifyWebhookSignature(
+    header: string | undefined,
+    payload: Buffer,
+    secrets: string[],
+    toleranceSeconds: number,
+    now = Date.now(),
+): void {
+    if (!header) {
+        throw new UnauthorizedError(
+            'Missing webhook signature',
+            'invalid_signature',
+        );
+    }
+    let timestamp: number | undefined;
+    const signatures: Buffer[] = [];
+    for (const part of header.split(',')) {
+        const [key, value] = part.trim().split('=', 2);
+        if (key === 't' && /^\d+$/.test(value)) {
+            timestamp = Number(value);
+        } else if (key === 'v1' && /^[0-9a-f]{64}$/.test(value)) {
+            signatures.push(Buffer.from(value, 'hex'));
+        }
+    }
+    if (timestamp === undefined || signatures.length === 0) {
+        throw new UnauthorizedError(
+            'Malformed webhook signature',
+            'invalid_signature',
+        );
+    }
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+        throw new UnauthorizedError(
+            'Webhook signature timestamp is outside the tolerance',
+            'signature_expired',
+        );
+    }
+    const valid = secrets.some((secret) => {
+        const expected = Buffer.from(
+            signWebhookPayload(payload, secret, timestamp),
+            'hex',
+        );
+        return signatures.some((signature) =>
+            crypto.timingSafeEqual(signature, expected),
+        );
+    });
+    if (!valid) {
+        throw new UnauthorizedError(
+            'Invalid webhook signature',
+            'invalid_signature',
+        );
+    }
+}
+const roleRank: Record<Role, number> = { user: 0, moderator: 1, admin: 2 };
+
+export function hasRole(role: Role, required: Role): boolean {
+    return roleRank[role] >= roleRank[required];
+}
+
+// Suspended accounts (see the report moderation actions) keep their data
+// but cannot sign in, refresh tokens or post
+export function assertNotSuspended(user: { suspendedAt: Date | null }) {
+    if (user.suspendedAt) {
+        throw new ForbiddenError(
+            'Your account has been suspended',
+            'account_suspended',
+        );
+    }
+}
+
 export function makeRefreshToken(): string {
     const token = crypto.randomBytes(32).toString('hex');
     return token;
 }
 
+// Refresh and mailed tokens are 256 random bits, so a plain SHA-256 is enough
+// to make a leaked table useless without slowing down every use like bcrypt
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 export async function handlerLogin(req: Request, res: Response) {
     const { email, password } = req.body;
     if (!email || !password) {
         throw new BadRequestError('Email and password are required');
     }
+    const attemptEmail = String(email).trim().toLowerCase();
     const user = await getUserByEmail(email);
-    const isValid = await verifyPassword(password, user.hashedPassword);
+    await assertLoginAllowed(req, attemptEmail, user?.id);
+
+    dummyPasswordHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+    const isValid = await verifyPassword(
+        password,
+        user ? user.hashedPassword : await dummyPasswordHash,
+    );
     if (!user || !isValid) {
-        throw new UnauthorizedError('Incorrect email or password');
+        await recordAttempt(req, attemptEmail, 'invalid_credentials', user?.id);
+        throw new UnauthorizedError(
+            'Incorrect email or password',
+            'invalid_credentials',
+        );
+    }
+    if (user.suspendedAt) {
+        await recordAttempt(req, attemptEmail, 'suspended', user.id);
     }
-    // On successful login, create a new refresh token
+    assertNotSuspended(user);
+    await recordAttempt(req, attemptEmail, 'success', user.id);
+    // On successful login, start a new session (token family)
     const refreshToken = makeRefreshToken();
-    await createRefreshToken(refreshToken, user.id);
+    await createRefreshToken(
+        hashToken(refreshToken),
+        user.id,
+        crypto.randomUUID(),
+        req.get('User-Agent'),
+    );
     const userResponse: UserResponse = {
         id: user.id,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         email: user.email,
-        token: makeJWT(user.id, 3600, config.api.jwtSecret),
+        token: makeJWT(
+            user.id,
+            3600,
+            config.api.jwtSecret,
+            user.role,
+            planOf(user),
+        ),
         isChirpyRed: user.isChirpyRed,
+        plan: planOf(user),
+        entitlements: entitlementsOf(user),
+        role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
         refreshToken: refreshToken,
     };
     res.status(200).json(userResponse);
@@ -122,7 +285,8 @@ export async function handlerRefresh(req: Request, res: Response) {
     }
 
     // Look up the refresh token in the database
-    const refreshTokenRecord = await getUserFromRefreshToken(refreshToken);
+    const tokenHash = hashToken(refreshToken);
+    const refreshTokenRecord = await getRefreshToken(tokenHash);
 
     // Check if token exists, is not expired, and is not revoked
     if (
@@ -130,33 +294,81 @@ export async function handlerRefresh(req: Request, res: Response) {
         refreshTokenRecord.expiresAt < new Date() ||
         refreshTokenRecord.revokedAt !== null
     ) {
-        throw new UnauthorizedError('Invalid refresh token');
+        throw new UnauthorizedError(
+            'Invalid refresh token',
+            'invalid_refresh_token',
+        );
+    }
+
+    // Rotate: the presented token is spent and a new one replaces it. A token
+    // that was already rotated is being replayed, most likely by someone who
+    // stole it, so the whole session is revoked.
+    const newRefreshToken = makeRefreshToken();
+    const rotated =
+        refreshTokenRecord.rotatedAt === null &&
+        (await rotateRefreshToken(
+            tokenHash,
+            hashToken(newRefreshToken),
+            req.get('User-Agent'),
+        ));
+    if (!rotated) {
+        await revokeRefreshTokenFamily(refreshTokenRecord.familyId);
+        res.locals.logger?.warn('refresh token reuse detected', {
+            userId: refreshTokenRecord.user_id,
+            sessionId: refreshTokenRecord.familyId,
+        });
+        throw new UnauthorizedError(
+            'Invalid refresh token',
+            'invalid_refresh_token',
+        );
     }
 
+    const user = await getUserById(refreshTokenRecord.user_id);
+    assertNotSuspended(user);
+
     // Create a new JWT access token for the user
     const newAccessToken = makeJWT(
         refreshTokenRecord.user_id,
         3600,
         config.api.jwtSecret,
+        user.role,
+        planOf(user),
     );
 
-    res.status(200).json({ token: newAccessToken });
+    res.status(200).json({
+        token: newAccessToken,
+        refreshToken: newRefreshToken,
+    });
 }
 
+// Logs out the session the refresh token belongs to
 export async function handlerRevoke(req: Request, res: Response) {
     // Get REFRESH token from Authorization header
     const refreshToken = getBearerToken(req);
 
-    // Revoke the token in the database
-    await revokeRefreshToken(refreshToken);
+    // Revoke every token of its family in the database
+    const refreshTokenRecord = await getRefreshToken(hashToken(refreshToken));
+    if (refreshTokenRecord) {
+        await revokeRefreshTokenFamily(refreshTokenRecord.familyId);
+    }
 
     // Return 204 No Content (successful but no response body)
     res.status(204).send();
 }
 
 //A JWT payload can have any key-value pair, but I used the Pick utility function to narrow the JwtPayload type down to the keys we care about:
-type Payload = Pick<JwtPayload, 'iss' | 'sub' | 'iat' | 'exp'>;
-type UserResponse = Omit<NewUser, 'hashedPassword'> & {
+type Payload = Pick<JwtPayload, 'iss' | 'sub' | 'iat' | 'exp'> & {
+    role: Role;
+    plan: Plan;
+};
+type TokenClaims = {
+    userId: string;
+    role: Role;
+    plan: Plan;
+};
+type UserResponse = Omit<NewUser, 'hashedPassword' | 'suspendedAt'> & {
     token: string;
     refreshToken: string;
+    plan: Plan;
+    entitlements: Entitlements;
 };
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { type IncomingMessage, type Server } from 'node:http';
+import { type Duplex } from 'node:stream';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { BadRequestError } from './errors.js';
+import { chirpStreamQuery } from './validation.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { chirpStreamClients } from '../metrics.js';
+import {
+    subscribeChirpStream,
+    type ChirpStreamEvent,
+    type ChirpStreamFilter,
+} from '../chirpStream.js';
+
+export const CHIRP_STREAM_PATH = '/api/chirps/stream';
+
+// Clients that fall this far behind are disconnected rather than buffered
+// without limit; they can resume with Last-Event-ID
+const maxBufferedBytes = 1024 * 1024;
+
+// Open Server-Sent Event responses, ended by closeChirpStreams
+const openStreams = new Set<Response>();
+
+// Last-Event-ID header or lastEventId query parameter
+export function parseLastEventId(value: unknown): number | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        throw new BadRequestError(
+            'Last-Event-ID must be an event id',
+            'invalid_last_event_id',
+        );
+    }
+    return Number(value);
+}
+
+// The whole event is the data, so SSE and WebSocket clients parse the same
+// JSON
+export function formatServerSentEvent(event: ChirpStreamEvent): string {
+    return `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Server-Sent Events. Browsers reconnect on their own and send the id of the
+// last event they saw as Last-Event-ID.
+export async function handlerChirpStream(req: Request, res: Response) {
+    const filter: ChirpStreamFilter = {
+        authorId: req.query.authorId as string | undefined,
+    };
+    const lastEventId = parseLastEventId(
+        req.get('Last-Event-ID') ?? req.query.lastEventId,
+    );
+
+    let closed = false;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let unsubscribe: (() => void) | undefined;
+    openStreams.add(res);
+    res.on('close', () => {
+        closed = true;
+        openStreams.delete(res);
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        chirpStreamClients.dec({ transport: 'sse' });
+    });
+    chirpStreamClients.inc({ transport: 'sse' });
+
+    const write = (chunk: string) => {
+        if (closed) {
+            return;
+        }
+        res.write(chunk);
+        if (res.writableLength > maxBufferedBytes) {
+            res.end();
+        }
+    };
+    // Headers go out with the first write, so a failure before it still
+    // gets a problem response
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    try {
+        unsubscribe = await subscribeChirpStream(filter, lastEventId, (event) =>
+            write(formatServerSentEvent(event)),
+        );
+    } catch (error) {
+        if (!res.headersSent) {
+            throw error;
+        }
+        (res.locals.logger ?? logger).error('chirp stream replay failed', {
+            error,
+        });
+        res.end();
+        return;
+    }
+    if (closed) {
+        unsubscribe();
+        return;
+    }
+
+    write(`retry: 3000\n\n`);
+    heartbeat = setInterval(
+        () => write(': heartbeat\n\n'),
+        config.chirpStream.heartbeatSeconds * 1000,
+    );
+}
+
+// The same stream over WebSocket at the same path, one JSON event per
+// message. Resume with the lastEventId query parameter.
+export function attachChirpStreamSocket(server: Server): WebSocketServer {
+    const sockets = new WebSocketServer({ noServer: true });
+    server.on(
+        'upgrade',
+        (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            if (url.pathname !== CHIRP_STREAM_PATH) {
+                socket.destroy();
+                return;
+            }
+            const query = chirpStreamQuery.query.safeParse(
+                Object.fromEntries(url.searchParams),
+            );
+            if (!query.success) {
+                socket.end(
+                    'HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n',
+                );
+                return;
+            }
+            sockets.handleUpgrade(req, socket, head, (ws) =>
+                streamToSocket(
+                    ws,
+                    { authorId: query.data.authorId },
+                    parseLastEventId(query.data.lastEventId),
+                ),
+            );
+        },
+    );
+    return sockets;
+}
+
+async function streamToSocket(
+    ws: WebSocket,
+    filter: ChirpStreamFilter,
+    lastEventId: number | undefined,
+) {
+    let alive = true;
+    let unsubscribe: (() => void) | undefined;
+    // Pings double as the heartbeat; a client that missed the last one is gone
+    const heartbeat = setInterval(() => {
+        if (!alive) {
+            ws.terminate();
+            return;
+        }
+        alive = false;
+        ws.ping();
+    }, config.chirpStream.heartbeatSeconds * 1000);
+    ws.on('pong', () => {
+        alive = true;
+    });
+    ws.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        chirpStreamClients.dec({ transport: 'websocket' });
+    });
+    chirpStreamClients.inc({ transport: 'websocket' });
+
+    try {
+        unsubscribe = await subscribeChirpStream(
+            filter,
+            lastEventId,
+            (event) => {
+                if (ws.readyState !== ws.OPEN) {
+                    return;
+                }
+                ws.send(JSON.stringify(event));
+                if (ws.bufferedAmount > maxBufferedBytes) {
+                    ws.terminate();
+                }
+            },
+        );
+    } catch (error) {
+        logger.error('chirp stream replay failed', { error });
+        ws.close(1011, 'Replay failed');
+        return;
+    }
+    if (ws.readyState === ws.CLOSED) {
+        unsubscribe();
+    }
+}
+
+// Ends every stream so a shutdown does not wait for them. Clients reconnect
+// to another instance, and resume from their last event id.
+export function closeChirpStreams(sockets: WebSocketServer) {
+    for (const res of openStreams) {
+        res.end();
+    }
+    for (const ws of sockets.clients) {
+        ws.close(1001, 'Server shutting down');
+    }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { type Request, type Response } from 'express';
+import {
+    handlerCreateChirp,
+    handlerEditChirp,
+    handlerPublishChirp,
+} from './chirps';
+import { makeJWT } from './auth';
+import { config } from '../config';
+import {
+    createChirp,
+    editChirp,
+    getChirpById,
+    publishChirp,
+} from '../db/queries/chirps';
+import { getUserById } from '../db/queries/users';
+
+// The handlers run against these instead of the database
+vi.mock('../db/queries/users', () => ({ getUserById: vi.fn() }));
+vi.mock('../db/queries/chirps', () => ({
+    createChirp: vi.fn(async (chirp) => ({ id: 'chirp', ...chirp })),
+    editChirp: vi.fn(async () => true),
+    getChirpById: vi.fn(),
+    publishChirp: vi.fn(),
+}));
+vi.mock('../db/queries/moderation', () => ({
+    getModerationRules: vi.fn(async () => []),
+}));
+vi.mock('../chirpEvents', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../chirpEvents')>()),
+    announceChirpCreated: vi.fn(),
+}));
+
+const userId = '6f1c2d3e-4f50-4617-8293-a4b5c6d7e8f9';
+const chirpId = '0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9';
+type User = { id: string; isChirpyRed: boolean; suspendedAt: Date | null };
+const free: User = { id: userId, isChirpyRed: false, suspendedAt: null };
+const red: User = { id: userId, isChirpyRed: true, suspendedAt: null };
+const publishAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+function request(body: object, params: object = {}) {
+    const token = makeJWT(userId, 3600, config.api.jwtSecret);
+    return {
+        body,
+        params,
+        get: (header: string) =>
+            header === 'Authorization' ? `Bearer ${token}` : undefined,
+    } as unknown as Request;
+}
+
+function response() {
+    const res = {
+        status: vi.fn(() => res),
+        json: vi.fn(() => res),
+        send: vi.fn(() => res),
+        header: vi.fn(() => res),
+    };
+    return res as unknown as Response & typeof res;
+}
+
+function signedInAs(user: User) {
+    vi.mocked(getUserById).mockResolvedValue(
+        user as Awaited<ReturnType<typeof getUserById>>,
+    );
+}
+
+function existingChirp(
+    status: 'draft' | 'scheduled' | 'published',
+    moderationStatus: 'approved' | 'pending' | 'rejected' = 'approved',
+) {
+    vi.mocked(getChirpById).mockResolvedValue({
+        id: chirpId,
+        userId,
+        status,
+        moderationStatus,
+    } as Awaited<ReturnType<typeof getChirpById>>);
+}
+
+const chirpyRedRequired = expect.objectContaining({
+    status: 403,
+    code: 'chirpy_red_required',
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('Free Plan Chirps', () => {
+    beforeEach(() => signedInAs(free));
+
+    it('should accept chirps of up to 140 characters', async () => {
+        const res = response();
+        await handlerCreateChirp(request({ body: 'a'.repeat(140) }), res);
+        expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse chirps longer than 140 characters', async () => {
+        await expect(
+            handlerCreateChirp(request({ body: 'a'.repeat(141) }), response()),
+        ).rejects.toMatchObject({ status: 422, code: 'chirp_too_long' });
+        expect(createChirp).not.toHaveBeenCalled();
+    });
+
+    it('should edit drafts and scheduled chirps', async () => {
+        for (const status of ['draft', 'scheduled'] as const) {
+            existingChirp(status);
+            const res = response();
+            await handlerEditChirp(
+                request({ body: 'Fixed a typo' }, { chirpId }),
+                res,
+            );
+            expect(res.status).toHaveBeenCalledWith(200);
+        }
+        expect(editChirp).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse editing published chirps', async () => {
+        existingChirp('published');
+        await expect(
+            handlerEditChirp(
+                request({ body: 'Fixed a typo' }, { chirpId }),
+                response(),
+            ),
+        ).rejects.toThrow(chirpyRedRequired);
+        expect(editChirp).not.toHaveBeenCalled();
+    });
+
+    it('should refuse scheduling chirps', async () => {
+        await expect(
+            handlerCreateChirp(
+                request({ body: 'Later', publishAt }),
+                response(),
+            ),
+        ).rejects.toThrow(chirpyRedRequired);
+        await expect(
+            handlerPublishChirp(
+                request({ publishAt }, { chirpId }),
+                response(),
+            ),
+        ).rejects.toThrow(chirpyRedRequired);
+        expect(createChirp).not.toHaveBeenCalled();
+    });
+});
+
+describe('Chirpy Red Chirps', () => {
+    beforeEach(() => signedInAs(red));
+
+    it('should accept chirps of 141 to 500 characters', async () => {
+        for (const length of [141, 500]) {
+            const res = response();
+            await handlerCreateChirp(
+                request({ body: 'a'.repeat(length) }),
+                res,
+            );
+            expect(res.status).toHaveBeenCalledWith(201);
+        }
+    });
+
+    it('should refuse chirps longer than 500 characters', async () => {
+        await expect(
+            handlerCreateChirp(request({ body: 'a'.repeat(501) }), response()),
+        ).rejects.toMatchObject({ status: 422, code: 'chirp_too_long' });
+    });
+
+    it('should edit published chirps', async () => {
+        existingChirp('published');
+        const res = response();
+        await handlerEditChirp(
+            request({ body: 'Fixed a typo' }, { chirpId }),
+            res,
+        );
+        expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should refuse editing chirps a moderator rejected', async () => {
+        existingChirp('published', 'rejected');
+        await expect(
+            handlerEditChirp(
+                request({ body: 'Nothing to see here' }, { chirpId }),
+                response(),
+            ),
+        ).rejects.toMatchObject({ status: 403, code: 'chirp_rejected' });
+        expect(editChirp).not.toHaveBeenCalled();
+    });
+
+    it('should schedule chirps', async () => {
+        const res = response();
+        await handlerCreateChirp(request({ body: 'Later', publishAt }), res);
+        expect(createChirp).toHaveBeenCalledWith(
+            expect.objectContaining({ status: 'scheduled' }),
+            undefined,
+        );
+        expect(res.status).toHaveBeenCalledWith(201);
+    });
+});
+
+describe('Suspended Authors', () => {
+    beforeEach(() => signedInAs({ ...red, suspendedAt: new Date() }));
+
+    it('should refuse edits and publishing', async () => {
+        existingChirp('draft');
+        const suspended = { status: 403, code: 'account_suspended' };
+        await expect(
+            handlerEditChirp(
+                request({ body: 'Still here' }, { chirpId }),
+                response(),
+            ),
+        ).rejects.toMatchObject(suspended);
+        await expect(
+            handlerPublishChirp(request({}, { chirpId }), response()),
+        ).rejects.toMatchObject(suspended);
+        expect(editChirp).not.toHaveBeenCalled();
+        expect(publishChirp).not.toHaveBeenCalled();
+    });
+});
@@ -1,75 +1,340 @@
 import { Request, Response } from 'express';
-import { BadRequestError, ForbiddenError, NotFoundError } from './errors.js';
+import {
+    BadRequestError,
+    ForbiddenError,
+    NotFoundError,
+    UnprocessableError,
+} from './errors.js';
 import {
     createChirp,
     getAllChirps,
     getChirpById,
     deleteChirp,
+    searchChirps,
+    getChirpThread,
+    editChirp,
+    getChirpRevisions,
+    publishChirp,
 } from '../db/queries/chirps.js';
-import { getBearerToken, validateJWT } from './auth.js';
+import {
+    assertNotSuspended,
+    getBearerToken,
+    getOptionalUserId,
+    validateJWT,
+} from './auth.js';
+import { getUserById } from '../db/queries/users.js';
 import { config } from '../config.js';
+import {
+    buildPage,
+    parsePageParams,
+    parseTimestamp,
+    setPageLinks,
+} from './pagination.js';
+import { moderateChirpBody } from './moderation.js';
+import {
+    announceChirpCreated,
+    announceChirpDeleted,
+    isAnnounced,
+} from '../chirpEvents.js';
+import { type ChirpStatus } from '../db/schema.js';
+import { removeAttachmentFiles } from '../attachments.js';
+import { assertEntitled, entitlementsOf } from './entitlements.js';
 
 export async function handlerCreateChirp(
     req: Request,
     res: Response,
 ): Promise<void> {
-    const { body } = req.body;
+    const { body, replyToId, publishAt, draft, attachmentIds } = req.body;
     const token = getBearerToken(req);
     const userId = validateJWT(token, config.api.jwtSecret);
+    const user = await getUserById(userId);
+    if (!user) {
+        throw new NotFoundError('User not found');
+    }
+    assertNotSuspended(user);
 
-    if (body.length > 140) {
-        throw new BadRequestError('Chirp is too long. Max length is 140');
-    } else {
-        const strArray = body.split(' ');
-        const cleanedArray = strArray.map((str: string) => {
-            if (
-                str.toLowerCase() === 'kerfuffle' ||
-                str.toLowerCase() === 'sharbert' ||
-                str.toLowerCase() === 'fornax'
-            ) {
-                return '****';
-            }
-            return str;
-        });
-        const cleanedBody = cleanedArray.join(' ');
-
-        const chirp = await createChirp({
-            body: cleanedBody,
+    if (replyToId !== undefined && !(await getChirpById(replyToId))) {
+        throw new NotFoundError('Chirp to reply to not found');
+    }
+
+    if (publishAt !== undefined) {
+        assertEntitled(user, 'scheduleChirps');
+    }
+    const publishDate = parsePublishAt(publishAt);
+    const moderated = await moderateChirp(
+        body,
+        entitlementsOf(user).maxChirpLength,
+    );
+    const chirp = await createChirp(
+        {
+            body: moderated.body,
+            moderationStatus: moderated.moderationStatus,
             userId: userId,
-        });
+            replyToId: replyToId,
+            status: draft ? 'draft' : publishDate ? 'scheduled' : 'published',
+            publishAt: publishDate,
+        },
+        attachmentIds,
+    );
+    await announceChirpCreated(chirp);
+
+    res.header('Content-Type', 'application/json');
+
+    // Held chirps are accepted but not visible until a moderator approves
+    res.status(chirp.moderationStatus === 'pending' ? 202 : 201).send(
+        JSON.stringify(chirp),
+    );
+}
+
+export async function handlerEditChirp(req: Request, res: Response) {
+    const chirpId = req.params.chirpId;
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const user = await getUserById(userId);
+    if (!user) {
+        throw new NotFoundError('User not found');
+    }
+    assertNotSuspended(user);
+    const chirp = await getChirpById(chirpId, userId);
+    if (!chirp) {
+        throw new NotFoundError('Chirp not found');
+    } else if (chirp.userId !== userId) {
+        throw new ForbiddenError('You are not allowed to edit this chirp');
+    } else if (chirp.moderationStatus === 'rejected') {
+        throw new ForbiddenError(
+            'Chirps rejected by a moderator cannot be edited',
+            'chirp_rejected',
+        );
+    }
+    if (chirp.status === 'published') {
+        assertEntitled(user, 'editChirps');
+    }
+    const moderated = await moderateChirp(
+        req.body.body,
+        entitlementsOf(user).maxChirpLength,
+    );
+    if (
+        !(await editChirp(
+            chirpId,
+            userId,
+            moderated.body,
+            moderated.moderationStatus,
+        ))
+    ) {
+        throw new NotFoundError('Chirp not found');
+    }
+    const edited = await getChirpById(chirpId, userId);
+    if (edited && !isAnnounced(chirp)) {
+        // Nothing was announced yet if the chirp only now became visible
+        await announceChirpCreated(edited);
+    }
+    res.status(200).json(edited);
+}
 
-        res.header('Content-Type', 'application/json');
+export async function handlerGetChirpRevisions(req: Request, res: Response) {
+    const chirpId = req.params.chirpId;
+    const chirp = await getChirpById(chirpId);
+    if (!chirp) {
+        throw new NotFoundError('Chirp not found');
+    }
+    const revisions = await getChirpRevisions(chirpId);
+    res.status(200).json(revisions);
+}
 
-        res.status(201).send(JSON.stringify(chirp));
+// Length and moderation rules shared by creating and editing chirps. The
+// length limit depends on the author's plan.
+// Returns the body to store and whether it must wait for review.
+async function moderateChirp(body: string, maxLength: number) {
+    if (body.length > maxLength) {
+        throw new UnprocessableError(
+            `Chirp is too long. Max length is ${maxLength}`,
+            'chirp_too_long',
+        );
+    }
+    const verdict = await moderateChirpBody(body);
+    if (verdict.action === 'reject') {
+        throw new UnprocessableError(
+            'Chirp was rejected by content moderation',
+            'chirp_rejected',
+        );
     }
+    return {
+        body: verdict.body,
+        moderationStatus:
+            verdict.action === 'hold'
+                ? ('pending' as const)
+                : ('approved' as const),
+    };
 }
 
 export async function handlerGetAllChirps(req: Request, res: Response) {
     const authorId = req.query.authorId as string | undefined;
     const sort = req.query.sort as string | undefined;
-    const chirps = await getAllChirps(authorId, sort);
-    res.status(200).send(JSON.stringify(chirps));
+    const since = parseTimestamp(req.query.since, 'since');
+    const until = parseTimestamp(req.query.until, 'until');
+    const pageParams = parsePageParams(req);
+    const rows = await getAllChirps({
+        viewerId: getOptionalUserId(req),
+        authorId,
+        sort,
+        since,
+        until,
+        ...pageParams,
+    });
+    const page = buildPage(rows, pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).send(JSON.stringify(page.items));
+}
+
+export async function handlerGetTimeline(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const sort = req.query.sort as string | undefined;
+    const pageParams = parsePageParams(req);
+    const rows = await getAllChirps({
+        viewerId: userId,
+        followedBy: userId,
+        sort,
+        ...pageParams,
+    });
+    const page = buildPage(rows, pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+export async function handlerSearchChirps(req: Request, res: Response) {
+    const q = req.query.q;
+    if (typeof q !== 'string' || q.trim() === '') {
+        throw new BadRequestError('Search query q is required');
+    }
+    const authorId = req.query.authorId as string | undefined;
+    const pageParams = parsePageParams(req);
+    const rows = await searchChirps({
+        q,
+        viewerId: getOptionalUserId(req),
+        authorId,
+        ...pageParams,
+    });
+    const page = buildPage(rows, pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
 }
 
 export async function handlerGetChirpById(req: Request, res: Response) {
     const chirpId = req.params.chirpId;
-    const chirp = await getChirpById(chirpId);
+    const chirp = await getChirpById(chirpId, getOptionalUserId(req));
     if (!chirp) {
         throw new NotFoundError('Chirp not found');
     }
     res.status(200).send(JSON.stringify(chirp));
 }
 
+export async function handlerGetChirpThread(req: Request, res: Response) {
+    const thread = await getChirpThread(
+        req.params.chirpId,
+        getOptionalUserId(req),
+    );
+    if (!thread) {
+        throw new NotFoundError('Chirp not found');
+    }
+
+    // Nest descendants under their parents; they arrive oldest first so a
+    // parent is always seen before its replies.
+    const nodes = new Map<string, ThreadNode>();
+    const root: ThreadNode = { ...thread.chirp, replies: [] };
+    nodes.set(root.id, root);
+    for (const chirp of thread.descendants) {
+        const node: ThreadNode = { ...chirp, replies: [] };
+        nodes.set(node.id, node);
+        nodes.get(chirp.replyToId!)?.replies.push(node);
+    }
+
+    res.status(200).json({ ancestors: thread.ancestors, chirp: root });
+}
+
 export async function handlerDeleteChirp(req: Request, res: Response) {
     const chirpId = req.params.chirpId;
     const token = getBearerToken(req);
     const userId = validateJWT(token, config.api.jwtSecret);
-    const chirp = await getChirpById(chirpId);
+    const chirp = await getChirpById(chirpId, userId);
     if (!chirp) {
         throw new NotFoundError('Chirp not found');
     } else if (chirp.userId !== userId) {
         throw new ForbiddenError('You are not allowed to delete this chirp');
     }
-    await deleteChirp(chirpId, userId);
+    await removeAttachmentFiles(await deleteChirp(chirpId, userId));
+    if (isAnnounced(chirp)) {
+        await announceChirpDeleted(chirp);
+    }
     res.status(204).send();
 }
+
+// Publishes one of your drafts or scheduled chirps now, or (re)schedules it
+// for publishAt
+export async function handlerPublishChirp(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const user = await getUserById(userId);
+    if (!user) {
+        throw new NotFoundError('User not found');
+    }
+    assertNotSuspended(user);
+    if (req.body.publishAt !== undefined) {
+        assertEntitled(user, 'scheduleChirps');
+    }
+    const publishAt = parsePublishAt(req.body.publishAt);
+    const chirp = await publishChirp(req.params.chirpId, userId, publishAt);
+    if (!chirp) {
+        throw new NotFoundError('No unpublished chirp of yours with this id');
+    }
+    await announceChirpCreated(chirp);
+    res.status(200).json(await getChirpById(chirp.id, userId));
+}
+
+export async function handlerGetDraftChirps(req: Request, res: Response) {
+    await getOwnUnpublishedChirps(req, res, 'draft');
+}
+
+export async function handlerGetScheduledChirps(req: Request, res: Response) {
+    await getOwnUnpublishedChirps(req, res, 'scheduled');
+}
+
+async function getOwnUnpublishedChirps(
+    req: Request,
+    res: Response,
+    status: Exclude<ChirpStatus, 'published'>,
+) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const sort = req.query.sort as string | undefined;
+    const pageParams = parsePageParams(req);
+    const rows = await getAllChirps({
+        viewerId: userId,
+        authorId: userId,
+        status,
+        sort,
+        ...pageParams,
+    });
+    const page = buildPage(rows, pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+function parsePublishAt(publishAt: string | undefined) {
+    if (publishAt === undefined) {
+        return undefined;
+    }
+    const date = new Date(publishAt);
+    if (date.getTime() <= Date.now()) {
+        throw new UnprocessableError(
+            'publishAt must be in the future',
+            'publish_at_in_past',
+        );
+    }
+    return date;
+}
+
+type ThreadChirp = NonNullable<
+    Awaited<ReturnType<typeof getChirpThread>>
+>['chirp'];
+type ThreadNode = ThreadChirp & { replies: ThreadNode[] };
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+    assertEntitled,
+    entitlementsOf,
+    planOf,
+    userRateLimit,
+} from './entitlements';
+import { ForbiddenError } from './errors';
+
+const free = { isChirpyRed: false };
+const red = { isChirpyRed: true };
+const bucket = { capacity: 20, refillPerMinute: 10 };
+
+describe('Free Plan Entitlements', () => {
+    it('should keep the 140 character limit', () => {
+        expect(planOf(free)).toBe('free');
+        expect(entitlementsOf(free).maxChirpLength).toBe(140);
+    });
+
+    it('should refuse editing published chirps and scheduling', () => {
+        expect(() => assertEntitled(free, 'editChirps')).toThrow(
+            ForbiddenError,
+        );
+        expect(() => assertEntitled(free, 'scheduleChirps')).toThrow(
+            expect.objectContaining({ code: 'chirpy_red_required' }),
+        );
+    });
+
+    it('should get the configured rate limit bucket', () => {
+        expect(userRateLimit(bucket, 'free')).toEqual(bucket);
+    });
+});
+
+describe('Chirpy Red Entitlements', () => {
+    it('should allow longer chirps', () => {
+        expect(planOf(red)).toBe('red');
+        expect(entitlementsOf(red).maxChirpLength).toBeGreaterThan(140);
+    });
+
+    it('should allow editing published chirps and scheduling', () => {
+        expect(() => assertEntitled(red, 'editChirps')).not.toThrow();
+        expect(() => assertEntitled(red, 'scheduleChirps')).not.toThrow();
+    });
+
+    it('should get larger rate limit buckets', () => {
+        expect(userRateLimit(bucket, 'red')).toEqual({
+            capacity: 60,
+            refillPerMinute: 30,
+        });
+    });
+});
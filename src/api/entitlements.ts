@@ -0,0 +1,74 @@
+import { type BucketPolicy } from '../config.js';
+import { ForbiddenError } from './errors.js';
+
+export const plans = ['free', 'red'] as const;
+
+export type Plan = (typeof plans)[number];
+
+// What a plan lets its users do. Handlers check these instead of looking at
+// isChirpyRed themselves.
+export type Entitlements = {
+    maxChirpLength: number;
+    // Editing published chirps; drafts and scheduled chirps are for all
+    editChirps: boolean;
+    // Creating or rescheduling chirps with a publishAt; drafts are for all
+    scheduleChirps: boolean;
+    // Scales the per-user buckets of every rate limit policy
+    rateLimitMultiplier: number;
+};
+
+export type Capability = {
+    [K in keyof Entitlements]: Entitlements[K] extends boolean ? K : never;
+}[keyof Entitlements];
+
+// The chirps.body column fits the longest maxChirpLength
+export const planEntitlements: Record<Plan, Entitlements> = {
+    free: {
+        maxChirpLength: 140,
+        editChirps: false,
+        scheduleChirps: false,
+        rateLimitMultiplier: 1,
+    },
+    red: {
+        maxChirpLength: 500,
+        editChirps: true,
+        scheduleChirps: true,
+        rateLimitMultiplier: 3,
+    },
+};
+
+const capabilityNames: Record<Capability, string> = {
+    editChirps: 'Editing published chirps',
+    scheduleChirps: 'Scheduling chirps',
+};
+
+// Chirpy Red is set and cleared by the Polka webhook
+export function planOf(user: { isChirpyRed: boolean }): Plan {
+    return user.isChirpyRed ? 'red' : 'free';
+}
+
+export function entitlementsOf(user: { isChirpyRed: boolean }): Entitlements {
+    return planEntitlements[planOf(user)];
+}
+
+export function assertEntitled(
+    user: { isChirpyRed: boolean },
+    capability: Capability,
+) {
+    if (!entitlementsOf(user)[capability]) {
+        throw new ForbiddenError(
+            `${capabilityNames[capability]} requires Chirpy Red`,
+            'chirpy_red_required',
+        );
+    }
+}
+
+// Takes the plan rather than the user, as rate limiting reads it from the
+// access token instead of the database
+export function userRateLimit(bucket: BucketPolicy, plan: Plan): BucketPolicy {
+    const { rateLimitMultiplier } = planEntitlements[plan];
+    return {
+        capacity: bucket.capacity * rateLimitMultiplier,
+        refillPerMinute: bucket.refillPerMinute * rateLimitMultiplier,
+    };
+}
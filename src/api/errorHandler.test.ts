@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import postgres from 'postgres';
+import { toHttpError } from './errorHandler';
+import {
+    ConflictError,
+    NotFoundError,
+    PayloadTooLargeError,
+    UnsupportedMediaTypeError,
+} from './errors';
+
+function pgError(fields: Record<string, string>): postgres.PostgresError {
+    return Object.assign(
+        Object.create(postgres.PostgresError.prototype),
+        fields,
+    ) as postgres.PostgresError;
+}
+
+// Shaped like the http-errors errors the body parser rejects requests with
+function clientError(
+    status: number,
+    type: string | undefined,
+    message: string,
+) {
+    return Object.assign(new Error(message), { status, type, expose: true });
+}
+
+describe('Error Mapping', () => {
+    it('should return HttpErrors unchanged', () => {
+        const error = new NotFoundError('Chirp not found');
+        expect(toHttpError(error)).toBe(error);
+    });
+
+    it('should map a known constraint to its own error', () => {
+        const error = toHttpError(
+            pgError({ code: '23505', constraint_name: 'users_email_unique' }),
+        );
+        expect(error).toBeInstanceOf(ConflictError);
+        expect(error.code).toBe('email_taken');
+    });
+
+    it('should find the Postgres error among the causes', () => {
+        const wrapped = new Error('Failed query', {
+            cause: pgError({ code: '23505', constraint_name: 'other_key' }),
+        });
+        const error = toHttpError(wrapped);
+        expect(error.status).toBe(409);
+        expect(error.code).toBe('unique_violation');
+    });
+
+    it('should tell a still referenced row from a missing reference', () => {
+        const referenced = toHttpError(
+            pgError({
+                code: '23503',
+                detail: 'Key (id)=(1) is still referenced from table "chirps".',
+            }),
+        );
+        const missing = toHttpError(
+            pgError({
+                code: '23503',
+                detail: 'Key (user_id)=(1) is not present in table "users".',
+            }),
+        );
+        expect(referenced.status).toBe(409);
+        expect(missing.status).toBe(422);
+    });
+
+    it('should report unparsable JSON bodies as bad requests', () => {
+        const error = toHttpError(
+            Object.assign(new SyntaxError('Unexpected token'), {
+                type: 'entity.parse.failed',
+            }),
+        );
+        expect(error.status).toBe(400);
+        expect(error.code).toBe('invalid_json');
+    });
+
+    it('should map exposed client errors to their status', () => {
+        const tooLarge = toHttpError(
+            clientError(413, 'entity.too.large', 'request entity too large'),
+        );
+        expect(tooLarge).toBeInstanceOf(PayloadTooLargeError);
+        expect(tooLarge.code).toBe('payload_too_large');
+        expect(tooLarge.message).toBe('request entity too large');
+
+        const encoding = toHttpError(
+            clientError(415, 'encoding.unsupported', 'unsupported encoding'),
+        );
+        expect(encoding).toBeInstanceOf(UnsupportedMediaTypeError);
+        expect(encoding.code).toBe('unsupported_media_type');
+
+        const aborted = toHttpError(
+            clientError(400, 'request.aborted', 'request aborted'),
+        );
+        expect(aborted.status).toBe(400);
+        expect(aborted.code).toBe('request_aborted');
+
+        const other = toHttpError(clientError(411, undefined, 'length'));
+        expect(other.status).toBe(411);
+        expect(other.code).toBe('length_required');
+    });
+
+    it('should not trust client errors that are not exposed', () => {
+        const error = toHttpError(
+            Object.assign(new Error('secret'), { statusCode: 404 }),
+        );
+        expect(error.status).toBe(500);
+        expect(error.message).not.toContain('secret');
+    });
+
+    it('should hide the message of anything else', () => {
+        const error = toHttpError(new Error('connection refused'));
+        expect(error.status).toBe(500);
+        expect(error.code).toBe('internal_error');
+        expect(error.message).not.toContain('connection refused');
+    });
+});
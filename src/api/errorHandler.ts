@@ -1,42 +1,192 @@
 import { NextFunction, Request, Response } from 'express';
+import { STATUS_CODES } from 'node:http';
+import postgres from 'postgres';
 import {
-    InternalServerError,
-    NotFoundError,
     BadRequestError,
-    ForbiddenError,
-    UnauthorizedError,
+    ClientError,
+    ConflictError,
+    HttpError,
+    InternalServerError,
+    PayloadTooLargeError,
+    TooManyRequestsError,
+    UnprocessableError,
+    UnsupportedMediaTypeError,
+    ValidationError,
 } from './errors.js';
+import { errorsTotal } from '../metrics.js';
+import { logger } from '../logger.js';
 
+// Constraints whose violation has a better message than the generic one
+const constraintErrors: Record<string, () => HttpError> = {
+    users_email_unique: () =>
+        new ConflictError('Email already exists', 'email_taken'),
+};
+
+// Responds with an RFC 7807 problem document:
+// { type, title, status, detail, instance, code, requestId, ...extensions }
 export async function errorHandler(
     err: Error,
     req: Request,
     res: Response,
     next: NextFunction,
 ): Promise<void> {
-    console.error(err);
-    if (err instanceof NotFoundError) {
-        res.status(404).json({
-            error: err.message,
-        });
-    } else if (err instanceof BadRequestError) {
-        res.status(400).json({
-            error: err.message,
-        });
-    } else if (err instanceof InternalServerError) {
-        res.status(500).json({
-            error: err.message,
-        });
-    } else if (err instanceof ForbiddenError) {
-        res.status(403).json({
-            error: err.message,
-        });
-    } else if (err instanceof UnauthorizedError) {
-        res.status(401).json({
-            error: err.message,
-        });
+    const log = res.locals.logger ?? logger;
+    const httpError = toHttpError(err);
+    errorsTotal.inc({ error: httpError.name });
+    if (httpError.status >= 500) {
+        log.error('unhandled error', { error: err });
     } else {
-        res.status(500).json({
-            error: 'Something went wrong on our end. Please try again later.',
+        log.info('request failed', {
+            code: httpError.code,
+            error: httpError.message,
         });
     }
+
+    const problem: Record<string, unknown> = {
+        type: `/problems/${httpError.code}`,
+        title: STATUS_CODES[httpError.status],
+        status: httpError.status,
+        detail: httpError.message,
+        instance: req.originalUrl,
+        code: httpError.code,
+        requestId: res.locals.requestId,
+    };
+    if (httpError instanceof ValidationError) {
+        problem.fields = httpError.fields;
+    } else if (httpError instanceof TooManyRequestsError) {
+        res.setHeader('Retry-After', httpError.retryAfterSeconds);
+    }
+    res.status(httpError.status).type('application/problem+json').json(problem);
+}
+
+// Errors that are not HttpErrors only expose their message when the library
+// that raised them marks it safe; otherwise they are either a constraint
+// violation we can explain or a bug
+export function toHttpError(err: Error): HttpError {
+    if (err instanceof HttpError) {
+        return err;
+    }
+    const pgError = findPostgresError(err);
+    if (pgError) {
+        const mapped = fromPostgresError(pgError);
+        if (mapped) {
+            return mapped;
+        }
+    }
+    // express.json() rejects unparsable bodies with a 400 http-errors error
+    if ('type' in err && err.type === 'entity.parse.failed') {
+        return new BadRequestError(
+            'Request body is not valid JSON',
+            'invalid_json',
+        );
+    }
+    const clientError = fromClientError(err);
+    if (clientError) {
+        return clientError;
+    }
+    return new InternalServerError(
+        'Something went wrong on our end. Please try again later.',
+    );
+}
+
+// Codes for the body parser's error types whose status code alone is vague
+const clientErrorCodes: Record<string, string> = {
+    'encoding.unsupported': 'unsupported_media_type',
+    'charset.unsupported': 'unsupported_media_type',
+    'request.aborted': 'request_aborted',
+    'request.size.invalid': 'invalid_content_length',
+};
+
+// Other body parser failures, such as a body over the size limit, are
+// http-errors errors with a 4xx status and expose: true when their message is
+// safe to show
+function fromClientError(err: Error): HttpError | undefined {
+    const { status, statusCode, expose, type } = err as Error & {
+        status?: unknown;
+        statusCode?: unknown;
+        expose?: unknown;
+        type?: unknown;
+    };
+    const code = status ?? statusCode;
+    if (
+        expose !== true ||
+        typeof code !== 'number' ||
+        !Number.isInteger(code) ||
+        code < 400 ||
+        code > 499
+    ) {
+        return undefined;
+    }
+    const errorCode =
+        (typeof type === 'string' ? clientErrorCodes[type] : undefined) ??
+        (STATUS_CODES[code] ?? 'client_error')
+            .toLowerCase()
+            .replace(/\W+/g, '_');
+    switch (code) {
+        case 400:
+            return new BadRequestError(err.message, errorCode);
+        case 413:
+            return new PayloadTooLargeError(err.message, errorCode);
+        case 415:
+            return new UnsupportedMediaTypeError(err.message, errorCode);
+        default:
+            return new ClientError(code, err.message, errorCode);
+    }
+}
+
+// Drizzle wraps driver errors, the PostgresError is somewhere in the causes
+function findPostgresError(err: unknown): postgres.PostgresError | undefined {
+    for (let current = err; current; current = (current as Error).cause) {
+        if (current instanceof postgres.PostgresError) {
+            return current;
+        }
+    }
+    return undefined;
+}
+
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+function fromPostgresError(err: postgres.PostgresError): HttpError | undefined {
+    const constraintError = err.constraint_name
+        ? constraintErrors[err.constraint_name]
+        : undefined;
+    if (constraintError) {
+        return constraintError();
+    }
+    switch (err.code) {
+        case '23505':
+            return new ConflictError(
+                'Resource already exists',
+                'unique_violation',
+            );
+        case '23503':
+            // Deleting a row others still point at vs pointing at a missing row
+            return err.detail?.includes('is still referenced')
+                ? new ConflictError(
+                      'Resource is still referenced',
+                      'foreign_key_violation',
+                  )
+                : new UnprocessableError(
+                      'Referenced resource does not exist',
+                      'foreign_key_violation',
+                  );
+        case '23502':
+            return new UnprocessableError(
+                `${err.column_name ?? 'A required value'} is required`,
+                'not_null_violation',
+            );
+        case '23514':
+            return new UnprocessableError(
+                'Value is not allowed',
+                'check_violation',
+            );
+        case '22001':
+            return new UnprocessableError(
+                'Value is too long',
+                'value_too_long',
+            );
+        case '22P02':
+            return new BadRequestError('Invalid input syntax', 'invalid_input');
+        default:
+            return undefined;
+    }
 }
@@ -1,28 +1,122 @@
-export class NotFoundError extends Error {
-    constructor(message: string) {
+// Every error a handler means to send to the client extends HttpError.
+// `code` is stable and machine-readable: clients branch on it, never on the
+// message. Subclasses provide a default code that a throw site can refine,
+// e.g. new ConflictError('Email already exists', 'email_taken').
+export abstract class HttpError extends Error {
+    abstract readonly status: number;
+    readonly code: string;
+
+    constructor(message: string, code: string) {
         super(message);
+        this.name = new.target.name;
+        this.code = code;
     }
 }
 
-export class BadRequestError extends Error {
-    constructor(message: string) {
-        super(message);
+export class BadRequestError extends HttpError {
+    readonly status = 400;
+    constructor(message: string, code = 'bad_request') {
+        super(message, code);
     }
 }
 
-export class InternalServerError extends Error {
-    constructor(message: string) {
-        super(message);
+export class UnauthorizedError extends HttpError {
+    readonly status = 401;
+    constructor(message: string, code = 'unauthorized') {
+        super(message, code);
     }
 }
-export class ForbiddenError extends Error {
-    constructor(message: string) {
-        super(message);
+
+export class ForbiddenError extends HttpError {
+    readonly status = 403;
+    constructor(message: string, code = 'forbidden') {
+        super(message, code);
     }
 }
 
-export class UnauthorizedError extends Error {
-    constructor(message: string) {
-        super(message);
+export class NotFoundError extends HttpError {
+    readonly status = 404;
+    constructor(message: string, code = 'not_found') {
+        super(message, code);
+    }
+}
+
+// The request conflicts with the current state, e.g. a duplicate
+export class ConflictError extends HttpError {
+    readonly status = 409;
+    constructor(message: string, code = 'conflict') {
+        super(message, code);
+    }
+}
+
+// Well-formed, but breaks a rule
+export class UnprocessableError extends HttpError {
+    readonly status = 422;
+    constructor(message: string, code = 'unprocessable') {
+        super(message, code);
+    }
+}
+
+export class PayloadTooLargeError extends HttpError {
+    readonly status = 413;
+    constructor(message: string, code = 'payload_too_large') {
+        super(message, code);
+    }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+    readonly status = 415;
+    constructor(message: string, code = 'unsupported_media_type') {
+        super(message, code);
+    }
+}
+
+export class TooManyRequestsError extends HttpError {
+    readonly status = 429;
+    constructor(
+        message: string,
+        public retryAfterSeconds: number,
+        code = 'too_many_requests',
+    ) {
+        super(message, code);
+    }
+}
+
+// Any other 4xx, for errors raised by middleware we don't own, e.g. a 411
+// from the body parser. Handlers throw the specific classes above.
+export class ClientError extends HttpError {
+    constructor(
+        readonly status: number,
+        message: string,
+        code: string,
+    ) {
+        super(message, code);
+    }
+}
+
+export class InternalServerError extends HttpError {
+    readonly status = 500;
+    constructor(message: string, code = 'internal_error') {
+        super(message, code);
+    }
+}
+
+export type FieldError = {
+    location: 'body' | 'params' | 'query';
+    field: string;
+    message: string;
+};
+
+// 400 when a field is missing or has the wrong type, 422 when the request is
+// well-formed but a value breaks a rule (format, length, allowed values)
+export class ValidationError extends HttpError {
+    constructor(
+        readonly status: 400 | 422,
+        public fields: FieldError[],
+    ) {
+        super(
+            status === 400 ? 'Malformed request' : 'Invalid request',
+            'validation_failed',
+        );
     }
 }
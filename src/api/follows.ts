@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { NotFoundError, UnprocessableError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import { getUserById } from '../db/queries/users.js';
+import {
+    followUser,
+    getFollowers,
+    getFollowing,
+    unfollowUser,
+} from '../db/queries/follows.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+
+// Following is idempotent: following someone twice is still a 204
+export async function handlerFollowUser(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const followeeId = req.params.id;
+    if (followeeId === userId) {
+        throw new UnprocessableError(
+            'You cannot follow yourself',
+            'self_follow',
+        );
+    }
+    const followee = await getUserById(followeeId);
+    if (!followee) {
+        throw new NotFoundError('User not found');
+    }
+    await followUser({ followerId: userId, followeeId });
+    res.status(204).send();
+}
+
+export async function handlerUnfollowUser(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    await unfollowUser(userId, req.params.id);
+    res.status(204).send();
+}
+
+export async function handlerGetFollowers(req: Request, res: Response) {
+    await listFollows(req, res, getFollowers);
+}
+
+export async function handlerGetFollowing(req: Request, res: Response) {
+    await listFollows(req, res, getFollowing);
+}
+
+async function listFollows(
+    req: Request,
+    res: Response,
+    query: typeof getFollowers,
+) {
+    const userId = req.params.id;
+    const user = await getUserById(userId);
+    if (!user) {
+        throw new NotFoundError('User not found');
+    }
+    const pageParams = parsePageParams(req);
+    const page = buildPage(await query(userId, pageParams), pageParams);
+    setPageLinks(req, res, page);
+    const response: FollowResponse[] = page.items.map((row) => ({
+        userId: row.id,
+        followedAt: row.createdAt,
+    }));
+    res.status(200).json(response);
+}
+
+type FollowResponse = {
+    userId: string;
+    followedAt: Date;
+};
@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { NotFoundError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import { getChirpById } from '../db/queries/chirps.js';
+import { likeChirp, unlikeChirp } from '../db/queries/likes.js';
+
+// Liking is idempotent: liking a chirp twice is still a 204
+export async function handlerLikeChirp(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const chirpId = req.params.chirpId;
+    const chirp = await getChirpById(chirpId);
+    if (!chirp) {
+        throw new NotFoundError('Chirp not found');
+    }
+    await likeChirp({ chirpId, userId });
+    res.status(204).send();
+}
+
+export async function handlerUnlikeChirp(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    await unlikeChirp(req.params.chirpId, userId);
+    res.status(204).send();
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { loginBackoffSeconds } from './loginAttempts';
+
+const lockout = {
+    windowMinutes: 15,
+    baseDelaySeconds: 1,
+    lockoutMinutes: 15,
+    account: { freeFailures: 3, lockAfter: 10 },
+    ip: { freeFailures: 10, lockAfter: 50 },
+};
+
+describe('Login Backoff', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const failures = (count: number, secondsAgo = 0) => ({
+        count,
+        lastAt: new Date(now.getTime() - secondsAgo * 1000),
+    });
+
+    it('should let the first failures through without waiting', () => {
+        expect(
+            loginBackoffSeconds(
+                { count: 0, lastAt: null },
+                lockout.account,
+                now,
+                lockout,
+            ),
+        ).toBe(0);
+        expect(
+            loginBackoffSeconds(failures(3), lockout.account, now, lockout),
+        ).toBe(0);
+    });
+
+    it('should double the delay with every further failure', () => {
+        const delays = [4, 5, 6, 7].map((count) =>
+            loginBackoffSeconds(failures(count), lockout.account, now, lockout),
+        );
+        expect(delays).toEqual([1, 2, 4, 8]);
+    });
+
+    it('should count the delay from the last failure', () => {
+        expect(
+            loginBackoffSeconds(failures(6, 3), lockout.account, now, lockout),
+        ).toBe(1);
+        expect(
+            loginBackoffSeconds(failures(6, 10), lockout.account, now, lockout),
+        ).toBe(0);
+    });
+
+    it('should lock out for the full lockout period after lockAfter failures', () => {
+        expect(
+            loginBackoffSeconds(failures(10), lockout.account, now, lockout),
+        ).toBe(15 * 60);
+        expect(
+            loginBackoffSeconds(
+                failures(10, 15 * 60),
+                lockout.account,
+                now,
+                lockout,
+            ),
+        ).toBe(0);
+    });
+
+    it('should never wait longer than the lockout', () => {
+        const longLockout = {
+            ...lockout,
+            account: { freeFailures: 0, lockAfter: 100 },
+        };
+        expect(
+            loginBackoffSeconds(
+                failures(50),
+                longLockout.account,
+                now,
+                longLockout,
+            ),
+        ).toBe(15 * 60);
+    });
+});
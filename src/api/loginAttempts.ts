@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { TooManyRequestsError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config, type LockoutPolicy } from '../config.js';
+import {
+    getAccountFailures,
+    getIpFailures,
+    getUserLoginAttempts,
+    recordLoginAttempt,
+} from '../db/queries/loginAttempts.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+import { type LoginOutcome } from '../db/schema.js';
+
+export type Failures = {
+    count: number;
+    lastAt: Date | null;
+};
+
+// Seconds until the next login may be attempted, 0 when it may right away
+export function loginBackoffSeconds(
+    failures: Failures,
+    policy: LockoutPolicy,
+    now: Date,
+    lockout = config.loginLockout,
+): number {
+    if (!failures.lastAt || failures.count <= policy.freeFailures) {
+        return 0;
+    }
+    const lockoutSeconds = lockout.lockoutMinutes * 60;
+    const waitSeconds =
+        failures.count >= policy.lockAfter
+            ? lockoutSeconds
+            : Math.min(
+                  lockoutSeconds,
+                  lockout.baseDelaySeconds *
+                      2 ** (failures.count - policy.freeFailures - 1),
+              );
+    const elapsedSeconds = (now.getTime() - failures.lastAt.getTime()) / 1000;
+    return Math.max(0, Math.ceil(waitSeconds - elapsedSeconds));
+}
+
+// Refuses the login while the account or the client IP is backing off.
+// Failures are counted by email, so unknown emails back off exactly like
+// real ones.
+export async function assertLoginAllowed(
+    req: Request,
+    email: string,
+    userId?: string,
+) {
+    const now = new Date();
+    const since = new Date(
+        now.getTime() - config.loginLockout.windowMinutes * 60 * 1000,
+    );
+    const [accountFailures, ipFailures] = await Promise.all([
+        getAccountFailures(email, since),
+        req.ip ? getIpFailures(req.ip, since) : { count: 0, lastAt: null },
+    ]);
+    const retryAfterSeconds = Math.max(
+        loginBackoffSeconds(accountFailures, config.loginLockout.account, now),
+        loginBackoffSeconds(ipFailures, config.loginLockout.ip, now),
+    );
+    if (retryAfterSeconds > 0) {
+        await recordAttempt(req, email, 'locked_out', userId);
+        throw new TooManyRequestsError(
+            `Too many failed login attempts, try again in ${retryAfterSeconds} seconds`,
+            retryAfterSeconds,
+            'login_locked',
+        );
+    }
+}
+
+export async function recordAttempt(
+    req: Request,
+    email: string,
+    outcome: LoginOutcome,
+    userId?: string,
+) {
+    await recordLoginAttempt({
+        email,
+        userId,
+        ip: req.ip,
+        userAgent: req.get('User-Agent')?.slice(0, 512),
+        outcome,
+    });
+}
+
+// Recent sign-in activity on the caller's own account, newest first
+export async function handlerGetLoginActivity(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const pageParams = parsePageParams(req);
+    const page = buildPage(
+        await getUserLoginAttempts(userId, pageParams),
+        pageParams,
+    );
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
@@ -1,16 +1,18 @@
 import { deleteAllUsers } from '../db/queries/admin.js';
-import { config } from '../config.js';
+import { removeAttachmentFiles } from '../attachments.js';
 import { Request, Response } from 'express';
+import { fileServerHits, getFileServerHits, registry } from '../metrics.js';
 
 export async function handlerMetrics(
     req: Request,
     res: Response,
 ): Promise<void> {
+    const hits = await getFileServerHits();
     res.set('Content-Type', 'text/html; charset=utf-8');
     res.send(`<html>
                 <body>
                     <h1>Welcome, Chirpy Admin</h1>
-                    <p>Chirpy has been visited ${config.api.fileServerHits} times!</p>
+                    <p>Chirpy has been visited ${hits} times!</p>
                 </body>
                 </html>`);
 }
@@ -19,8 +21,17 @@ export async function handlerResetMetrics(
     req: Request,
     res: Response,
 ): Promise<void> {
-    await deleteAllUsers();
-    config.api.fileServerHits = 0;
+    await removeAttachmentFiles(await deleteAllUsers());
+    fileServerHits.reset();
     res.set('Content-Type', 'text/plain; charset=utf-8');
     res.send('OK');
 }
+
+// Prometheus text exposition format for scrapers
+export async function handlerPrometheusMetrics(
+    req: Request,
+    res: Response,
+): Promise<void> {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+}
@@ -1,28 +1,371 @@
 import { NextFunction, Request, Response } from 'express';
-import { config } from '../config.js';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import multer from 'multer';
+import { config, type RateLimitConfig } from '../config.js';
+import {
+    assertNotSuspended,
+    getBearerToken,
+    hasRole,
+    validateJWTClaims,
+    verifyWebhookSignature,
+} from './auth.js';
+import {
+    BadRequestError,
+    ForbiddenError,
+    NotFoundError,
+    PayloadTooLargeError,
+    TooManyRequestsError,
+    UnauthorizedError,
+    ValidationError,
+    type FieldError,
+} from './errors.js';
+import { type Role } from '../db/schema.js';
+import {
+    fileServerHits,
+    httpRequestDuration,
+    httpRequestsTotal,
+} from '../metrics.js';
+import { logger } from '../logger.js';
+import { rateLimitStore, type RateLimitResult } from './rateLimit.js';
+import { type RequestSchema } from './validation.js';
+import { userRateLimit } from './entitlements.js';
+import { getUserById } from '../db/queries/users.js';
+
+// Incoming ids are only trusted when short and free of anything that could
+// forge extra log fields or headers
+const requestIdPattern = /^[A-Za-z0-9._:-]{1,128}$/;
 
 // Middleware
+
+// Propagates the caller's X-Request-Id or generates one, echoes it on the
+// response and leaves a logger bound to it in res.locals.logger
+export async function middlewareRequestId(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): Promise<void> {
+    const incoming = req.get('X-Request-Id');
+    const requestId =
+        incoming && requestIdPattern.test(incoming) ? incoming : randomUUID();
+    res.locals.requestId = requestId;
+    res.locals.logger = logger.child({ requestId });
+    res.setHeader('X-Request-Id', requestId);
+    next();
+}
+
+// One JSON line per request once the response is sent. Headers and body are
+// only logged at debug level, with credentials redacted by the logger.
 export async function middlewareLogResponses(
     req: Request,
     res: Response,
     next: NextFunction,
 ): Promise<void> {
+    const start = process.hrtime.bigint();
     res.on('finish', () => {
         const status = res.statusCode;
-        if (status < 200 || status >= 300) {
-            console.log(
-                `[NON-OK] ${req.method} ${req.url} - Status: ${status}`,
-            );
+        const fields = {
+            method: req.method,
+            path: req.originalUrl,
+            status,
+            durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+            userId: res.locals.userId ?? authenticatedUserId(req),
+        };
+        const log = res.locals.logger ?? logger;
+        if (status >= 500) {
+            log.error('request completed', fields);
+        } else if (status >= 400) {
+            log.warn('request completed', fields);
+        } else {
+            log.info('request completed', fields);
         }
+        log.debug('request details', {
+            headers: req.headers,
+            query: req.query,
+            body: req.body,
+        });
     });
     next();
 }
 
+// Handlers validate tokens themselves, so re-read the user id here. Invalid
+// or missing tokens are simply logged without one.
+function authenticatedUserId(req: Request): string | undefined {
+    return authenticatedClaims(req)?.userId;
+}
+
+function authenticatedClaims(req: Request) {
+    try {
+        return validateJWTClaims(getBearerToken(req), config.api.jwtSecret);
+    } catch {
+        return undefined;
+    }
+}
+
 export async function middlewareMetricsInc(
     req: Request,
     res: Response,
     next: NextFunction,
 ): Promise<void> {
-    config.api.fileServerHits++;
+    fileServerHits.inc();
+    // Static files have no Express route, label them all as one route
+    res.locals.metricsRoute = `${req.baseUrl}/*`;
     next();
 }
+
+// Records request count and latency per route and status once the
+// response is sent. Requests that match no route share one label.
+export async function middlewareHttpMetrics(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): Promise<void> {
+    const end = httpRequestDuration.startTimer();
+    res.on('finish', () => {
+        const labels = {
+            method: req.method,
+            route:
+                res.locals.metricsRoute ??
+                (req.route ? req.baseUrl + req.route.path : 'unmatched'),
+            status: res.statusCode,
+        };
+        httpRequestsTotal.inc(labels);
+        end(labels);
+    });
+    next();
+}
+
+// Requires an access token whose role claim is at least `role`. The
+// authenticated user id is left in res.locals.userId for the handler.
+export function middlewareRequireRole(role: Role) {
+    return async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const token = getBearerToken(req);
+            const claims = validateJWTClaims(token, config.api.jwtSecret);
+            // The role claim may be up to an hour old; a demoted or suspended
+            // account loses access right away
+            const user = await getUserById(claims.userId);
+            if (!user) {
+                throw new UnauthorizedError('User not found');
+            }
+            assertNotSuspended(user);
+            if (!hasRole(user.role, role)) {
+                throw new ForbiddenError(
+                    `This action requires the ${role} role`,
+                    'insufficient_role',
+                );
+            }
+            res.locals.userId = claims.userId;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+// Passed to express.json() as `verify`: signatures are computed over the
+// exact bytes received, which re-serializing req.body would not reproduce
+export function keepRawBody(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: Buffer,
+): void {
+    (res as Response).locals.rawBody = body;
+}
+
+// Requires a valid Polka-Signature header, see verifyWebhookSignature
+export async function middlewareRequirePolkaSignature(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): Promise<void> {
+    try {
+        verifyWebhookSignature(
+            req.get('Polka-Signature'),
+            res.locals.rawBody ?? Buffer.alloc(0),
+            config.polka.webhookSecrets,
+            config.polka.signatureToleranceSeconds,
+        );
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+// Guards /metrics with the static METRICS_TOKEN, since scrapers can't renew
+// access tokens. Without a token configured the endpoint does not exist.
+export function middlewareMetricsToken(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+): void {
+    try {
+        const expected = config.api.metricsToken;
+        if (!expected) {
+            throw new NotFoundError('Metrics are disabled');
+        }
+        // Hashing first gives equal lengths, as timingSafeEqual requires
+        const digest = (value: string) =>
+            createHash('sha256').update(value).digest();
+        if (!timingSafeEqual(digest(getBearerToken(req)), digest(expected))) {
+            throw new UnauthorizedError(
+                'Invalid metrics token',
+                'invalid_token',
+            );
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+// Applies a rate limit policy from config.rateLimit.policies. The user bucket
+// is keyed by the authenticated user, or else by the client IP together with
+// the email in the body (the account being logged into or reset). Keying by
+// the email alone would let anyone drain a victim's bucket from many IPs and
+// keep them from logging in; spreading guesses across IPs is what the login
+// lockout is for.
+export function middlewareRateLimit(name: keyof RateLimitConfig['policies']) {
+    return async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const policy = config.rateLimit.policies[name];
+            const checks: Promise<RateLimitResult>[] = [];
+            if (policy.ip) {
+                checks.push(
+                    rateLimitStore.consume(`${name}:ip:${req.ip}`, policy.ip),
+                );
+            }
+            const claims = authenticatedClaims(req);
+            const email = loginEmailKey(req);
+            const user = claims?.userId ?? (email && `${req.ip}:${email}`);
+            if (policy.user && user) {
+                // Signed-in users get the bucket size of the plan in their
+                // token, so this needs no database lookup
+                checks.push(
+                    rateLimitStore.consume(
+                        `${name}:user:${user}`,
+                        claims
+                            ? userRateLimit(policy.user, claims.plan)
+                            : policy.user,
+                    ),
+                );
+            }
+            const results = await Promise.all(checks);
+            if (results.length === 0) {
+                return next();
+            }
+
+            // Headers describe whichever bucket is closest to running out
+            const tightest = results.reduce((a, b) =>
+                b.retryAfterSeconds > a.retryAfterSeconds ||
+                (a.allowed && b.remaining < a.remaining)
+                    ? b
+                    : a,
+            );
+            res.setHeader('RateLimit-Limit', tightest.limit);
+            res.setHeader('RateLimit-Remaining', tightest.remaining);
+            res.setHeader('RateLimit-Reset', tightest.resetSeconds);
+            if (!tightest.allowed) {
+                throw new TooManyRequestsError(
+                    `Too many requests, try again in ${tightest.retryAfterSeconds} seconds`,
+                    tightest.retryAfterSeconds,
+                    'rate_limited',
+                );
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+// The email being logged into or reset. Rate limiting runs before validation,
+// so it is hashed to fit the bucket key whatever its length.
+function loginEmailKey(req: Request): string | undefined {
+    const email = req.body?.email;
+    return typeof email === 'string'
+        ? createHash('sha256').update(email.trim().toLowerCase()).digest('hex')
+        : undefined;
+}
+
+// Parses a multipart/form-data body holding a single file in `field` into
+// req.file, in memory. Other fields and files are refused.
+export function middlewareUpload(field: string) {
+    const maxBytes = config.attachments.maxBytes;
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxBytes, files: 1, fields: 0 },
+    }).single(field);
+    return (req: Request, res: Response, next: NextFunction): void => {
+        upload(req, res, (error?: unknown) => {
+            if (!error) {
+                return next();
+            }
+            if (!(error instanceof multer.MulterError)) {
+                return next(
+                    new BadRequestError(
+                        'Malformed multipart body',
+                        'invalid_upload',
+                    ),
+                );
+            }
+            next(
+                error.code === 'LIMIT_FILE_SIZE'
+                    ? new PayloadTooLargeError(
+                          `Files may be at most ${maxBytes} bytes`,
+                          'file_too_large',
+                      )
+                    : new BadRequestError(
+                          `Expected a single file in ${field}`,
+                          'invalid_upload',
+                      ),
+            );
+        });
+    };
+}
+
+// Checks the parts of the request the route declares a schema for and lists
+// every invalid field. The parsed body replaces req.body, so handlers see
+// trimmed values and no unknown fields.
+export function middlewareValidate(schema: RequestSchema) {
+    return async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        const fields: FieldError[] = [];
+        let malformed = false;
+        for (const location of ['params', 'query', 'body'] as const) {
+            const result = schema[location]?.safeParse(req[location] ?? {});
+            if (!result) {
+                continue;
+            }
+            if (result.success) {
+                if (location === 'body') {
+                    req.body = result.data;
+                }
+                continue;
+            }
+            for (const issue of result.error.issues) {
+                malformed ||= issue.code === 'invalid_type';
+                fields.push({
+                    location,
+                    field: issue.path.join('.'),
+                    message: issue.message,
+                });
+            }
+        }
+        if (fields.length > 0) {
+            return next(new ValidationError(malformed ? 400 : 422, fields));
+        }
+        next();
+    };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    applyModerationRules,
+    assertSafePattern,
+    compileRule,
+    invalidateModerationRules,
+    moderateChirpBody,
+} from './moderation';
+import { getModerationRules } from '../db/queries/moderation';
+import { type ModerationRule } from '../db/schema';
+
+vi.mock('../db/queries/moderation', () => ({ getModerationRules: vi.fn() }));
+
+function rule(
+    pattern: string,
+    action: ModerationRule['action'],
+    kind: ModerationRule['kind'] = 'word',
+): ModerationRule {
+    return {
+        id: pattern,
+        pattern,
+        kind,
+        action,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+}
+
+describe('Moderation Word Rules', () => {
+    const rules = [
+        {
+            pattern: 'kerfuffle',
+            kind: 'word' as const,
+            action: 'mask' as const,
+        },
+    ];
+
+    it('should mask words regardless of case and punctuation', () => {
+        const verdict = applyModerationRules('What a Kerfuffle!', rules);
+        expect(verdict.action).toBe('mask');
+        expect(verdict.body).toBe('What a ****!');
+    });
+
+    it('should not match words that only contain the pattern', () => {
+        const verdict = applyModerationRules('Such kerfuffles', rules);
+        expect(verdict.action).toBe('allow');
+        expect(verdict.body).toBe('Such kerfuffles');
+    });
+});
+
+describe('Moderation Actions', () => {
+    it('should apply the strictest matching action', () => {
+        const verdict = applyModerationRules('buy cheap pills now', [
+            { pattern: 'cheap', kind: 'word', action: 'mask' },
+            { pattern: 'pills?', kind: 'regex', action: 'hold' },
+        ]);
+        expect(verdict.action).toBe('hold');
+        expect(verdict.body).toBe('buy **** pills now');
+    });
+
+    it('should throw for an invalid regular expression', () => {
+        expect(() => compileRule({ pattern: '(', kind: 'regex' })).toThrow();
+    });
+});
+
+describe('Unsafe Regex Rules', () => {
+    it('should refuse patterns that can backtrack exponentially', () => {
+        for (const pattern of ['(a+)+', '(a|aa)*', '(?:x*y?)+z', '((ab)*c)+']) {
+            expect(() => assertSafePattern(pattern)).toThrow(
+                expect.objectContaining({ code: 'unsafe_pattern' }),
+            );
+        }
+    });
+
+    it('should refuse backreferences', () => {
+        for (const pattern of ['(a)\\1', '(?<w>a)\\k<w>']) {
+            expect(() => assertSafePattern(pattern)).toThrow(
+                expect.objectContaining({ code: 'unsafe_pattern' }),
+            );
+        }
+    });
+
+    it('should accept ordinary patterns', () => {
+        for (const pattern of [
+            'pills?',
+            'fr[e3]{2}\\s+money',
+            '(?:cheap|free) pills',
+            '(ab)+',
+            '[(+)]+',
+            '(?<word>sp[a@]m)',
+        ]) {
+            expect(() => assertSafePattern(pattern)).not.toThrow();
+        }
+    });
+});
+
+describe('Moderation Rule Cache', () => {
+    beforeEach(() => {
+        invalidateModerationRules();
+        vi.mocked(getModerationRules).mockReset();
+    });
+
+    it('should reuse compiled rules until they change', async () => {
+        vi.mocked(getModerationRules).mockResolvedValue([
+            rule('spam', 'reject'),
+        ]);
+        expect((await moderateChirpBody('spam')).action).toBe('reject');
+        expect((await moderateChirpBody('more spam')).action).toBe('reject');
+        expect(getModerationRules).toHaveBeenCalledTimes(1);
+
+        vi.mocked(getModerationRules).mockResolvedValue([]);
+        invalidateModerationRules();
+        expect((await moderateChirpBody('spam')).action).toBe('allow');
+        expect(getModerationRules).toHaveBeenCalledTimes(2);
+    });
+
+    it('should match every chirp with a reused rule', async () => {
+        vi.mocked(getModerationRules).mockResolvedValue([
+            rule('pills?', 'hold', 'regex'),
+        ]);
+        expect((await moderateChirpBody('buy pills')).action).toBe('hold');
+        expect((await moderateChirpBody('pills')).action).toBe('hold');
+    });
+});
@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import { ConflictError, NotFoundError, UnprocessableError } from './errors.js';
+import {
+    createModerationRule,
+    deleteModerationRule,
+    getModerationRules,
+    updateModerationRule,
+} from '../db/queries/moderation.js';
+import { getAllChirps, resolveHeldChirp } from '../db/queries/chirps.js';
+import { type ModerationRule } from '../db/schema.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+import { announceChirpCreated } from '../chirpEvents.js';
+import { config } from '../config.js';
+
+type Rule = Pick<ModerationRule, 'pattern' | 'kind' | 'action'>;
+
+export type ModerationVerdict = {
+    // The strictest action of all matching rules, 'allow' when none matched
+    action: 'allow' | Rule['action'];
+    // The body with every match of a mask rule replaced by asterisks
+    body: string;
+};
+
+// Higher wins when several rules match the same chirp
+const severity = { allow: 0, mask: 1, hold: 2, reject: 3 };
+
+// Word rules match whole words regardless of case or surrounding
+// punctuation, so "Kerfuffle!" matches "kerfuffle" but "kerfuffles" does not.
+export function compileRule(rule: Pick<Rule, 'pattern' | 'kind'>): RegExp {
+    if (rule.kind === 'word') {
+        const escaped = rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(
+            `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`,
+            'giu',
+        );
+    }
+    try {
+        return new RegExp(rule.pattern, 'giu');
+    } catch {
+        throw new UnprocessableError(
+            `Invalid regular expression: ${rule.pattern}`,
+            'invalid_pattern',
+        );
+    }
+}
+
+// Every rule runs synchronously on every chirp, so patterns that can
+// backtrack exponentially, like (a+)+ or (a|aa)*, would let one chirp stall
+// the server. Repeated groups may not contain quantifiers or alternation,
+// and backreferences are refused outright.
+export function assertSafePattern(pattern: string) {
+    const unsafe = (reason: string) =>
+        new UnprocessableError(
+            `Regular expression is too expensive to run: ${reason}`,
+            'unsafe_pattern',
+        );
+    // Per open group, whether it contains a quantifier or alternation
+    const groups: boolean[] = [];
+    const markGroup = () => {
+        if (groups.length > 0) {
+            groups[groups.length - 1] = true;
+        }
+    };
+    let inClass = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\') {
+            if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) {
+                throw unsafe('backreferences are not allowed');
+            }
+            i++;
+        } else if (inClass) {
+            inClass = char !== ']';
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === '(') {
+            groups.push(false);
+            // Skip (?:, (?=, (?!, (?<=, (?<! and (?<name> so their ? is not
+            // taken for a quantifier
+            const prefix = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(
+                pattern.slice(i),
+            );
+            i += prefix ? prefix[0].length - 1 : 0;
+        } else if (char === ')') {
+            const risky = groups.pop() ?? false;
+            const repeated = /^(?:[*+]|\{\d)/.test(pattern.slice(i + 1));
+            if (risky && repeated) {
+                throw unsafe(
+                    'repeated groups may not contain quantifiers or alternation',
+                );
+            }
+            if (risky || repeated) {
+                markGroup();
+            }
+        } else if (
+            char === '|' ||
+            /[*+?]/.test(char) ||
+            /^\{\d/.test(pattern.slice(i))
+        ) {
+            markGroup();
+        }
+    }
+}
+
+export function applyModerationRules(
+    body: string,
+    rules: (Rule & { regex?: RegExp })[],
+): ModerationVerdict {
+    let action: ModerationVerdict['action'] = 'allow';
+    let cleanedBody = body;
+    for (const rule of rules) {
+        const regex = rule.regex ?? compileRule(rule);
+        // Global regexes remember where the last test left off
+        regex.lastIndex = 0;
+        if (!regex.test(body)) {
+            continue;
+        }
+        if (severity[rule.action] > severity[action]) {
+            action = rule.action;
+        }
+        if (rule.action === 'mask') {
+            // Never lengthen the body past what passed the length check
+            cleanedBody = cleanedBody.replace(regex, (match) =>
+                '*'.repeat(Math.min(match.length, 4)),
+            );
+        }
+    }
+    return { action, body: cleanedBody };
+}
+
+type RuleCache = {
+    rules: Promise<(Rule & { regex: RegExp })[]>;
+    expiresAt: number;
+};
+
+let ruleCache: RuleCache | undefined;
+
+// Rules are fetched and compiled once, then reused until one is changed
+// through this instance or the cache expires
+function cachedRules() {
+    const now = Date.now();
+    if (!ruleCache || ruleCache.expiresAt <= now) {
+        const cache: RuleCache = {
+            rules: getModerationRules().then((rules) =>
+                rules.map((rule) => ({ ...rule, regex: compileRule(rule) })),
+            ),
+            expiresAt: now + config.moderation.ruleCacheSeconds * 1000,
+        };
+        // A failed load is retried by the next chirp instead of cached
+        cache.rules.catch(() => {
+            if (ruleCache === cache) {
+                ruleCache = undefined;
+            }
+        });
+        ruleCache = cache;
+    }
+    return ruleCache.rules;
+}
+
+export function invalidateModerationRules() {
+    ruleCache = undefined;
+}
+
+export async function moderateChirpBody(
+    body: string,
+): Promise<ModerationVerdict> {
+    return applyModerationRules(body, await cachedRules());
+}
+
+export async function handlerGetModerationRules(req: Request, res: Response) {
+    const rules = await getModerationRules();
+    res.status(200).json(rules);
+}
+
+export async function handlerCreateModerationRule(req: Request, res: Response) {
+    const rule = parseRule(req.body);
+    const created = await createModerationRule(rule);
+    if (!created) {
+        throw new ConflictError('Moderation rule already exists');
+    }
+    invalidateModerationRules();
+    res.status(201).json(created);
+}
+
+export async function handlerUpdateModerationRule(req: Request, res: Response) {
+    const ruleId = req.params.ruleId;
+    const rule = parseRule(req.body);
+    const rules = await getModerationRules();
+    if (
+        rules.some(
+            (r) =>
+                r.id !== ruleId &&
+                r.pattern === rule.pattern &&
+                r.kind === rule.kind,
+        )
+    ) {
+        throw new ConflictError('Moderation rule already exists');
+    }
+    const updated = await updateModerationRule(ruleId, rule);
+    if (!updated) {
+        throw new NotFoundError('Moderation rule not found');
+    }
+    invalidateModerationRules();
+    res.status(200).json(updated);
+}
+
+export async function handlerDeleteModerationRule(req: Request, res: Response) {
+    const deleted = await deleteModerationRule(req.params.ruleId);
+    if (!deleted) {
+        throw new NotFoundError('Moderation rule not found');
+    }
+    invalidateModerationRules();
+    res.status(204).send();
+}
+
+// Held chirps, oldest first
+export async function handlerGetModerationQueue(req: Request, res: Response) {
+    const pageParams = parsePageParams(req);
+    const rows = await getAllChirps({
+        moderationStatus: 'pending',
+        ...pageParams,
+    });
+    const page = buildPage(rows, pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+export async function handlerApproveChirp(req: Request, res: Response) {
+    await resolve(req, res, 'approved');
+}
+
+export async function handlerRejectChirp(req: Request, res: Response) {
+    await resolve(req, res, 'rejected');
+}
+
+async function resolve(
+    req: Request,
+    res: Response,
+    status: 'approved' | 'rejected',
+) {
+    const chirp = await resolveHeldChirp(req.params.chirpId, status);
+    if (!chirp) {
+        throw new NotFoundError('Chirp is not waiting for review');
+    }
+    // Held chirps were never announced, so approving one creates it
+    await announceChirpCreated(chirp);
+    res.status(200).json(chirp);
+}
+
+// The body was validated by moderationRuleBody, which also trims the pattern
+// and caps its length
+function parseRule(body: Partial<Rule> & Pick<Rule, 'pattern'>): Rule {
+    const { pattern, kind = 'word', action = 'mask' } = body;
+    const rule = { pattern, kind, action };
+    // Surface invalid or unsafe regular expressions now rather than on the
+    // next chirp
+    compileRule(rule);
+    if (kind === 'regex') {
+        assertSafePattern(pattern);
+    }
+    return rule;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { app } from '../app';
+import { buildOpenApiDocument, operations, toOpenApiPath } from './openapi';
+
+type Layer = {
+    route?: { path: string; methods: Record<string, boolean> };
+};
+
+// Every method + path registered on the Express app, e.g. "get /api/chirps"
+function registeredRoutes(): string[] {
+    const stack = app.router.stack as Layer[];
+    return stack.flatMap(({ route }) =>
+        route
+            ? Object.keys(route.methods).map(
+                  (method) => `${method} ${route.path}`,
+              )
+            : [],
+    );
+}
+
+describe('OpenAPI Document', () => {
+    const document = buildOpenApiDocument();
+
+    it('should document every registered route', () => {
+        const documented = Object.entries(document.paths).flatMap(
+            ([path, methods]) =>
+                Object.keys(methods).map((method) => `${method} ${path}`),
+        );
+        const missing = registeredRoutes().filter((route) => {
+            const [method, path] = route.split(' ');
+            return !documented.includes(`${method} ${toOpenApiPath(path)}`);
+        });
+        expect(missing).toEqual([]);
+    });
+
+    it('should document no route that is not registered', () => {
+        const registered = registeredRoutes();
+        const stale = operations
+            .map(({ method, path }) => `${method} ${path}`)
+            .filter((route) => !registered.includes(route));
+        expect(stale).toEqual([]);
+    });
+
+    it('should describe parameters and bodies from the validation schemas', () => {
+        expect(document.paths['/api/chirps/{chirpId}']).toMatchObject({
+            patch: {
+                parameters: [
+                    {
+                        name: 'chirpId',
+                        in: 'path',
+                        required: true,
+                        schema: expect.objectContaining({ format: 'uuid' }),
+                    },
+                ],
+                requestBody: {
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: { body: { type: 'string' } },
+                                required: ['body'],
+                            },
+                        },
+                    },
+                },
+                security: [{ bearer: [] }],
+                responses: expect.objectContaining({
+                    200: expect.anything(),
+                    400: expect.anything(),
+                    401: expect.anything(),
+                    403: expect.anything(),
+                    404: expect.anything(),
+                    422: expect.anything(),
+                }),
+            },
+        });
+    });
+});
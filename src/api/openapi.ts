@@ -0,0 +1,882 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import type { Role } from '../db/schema.js';
+import {
+    chirpIdParams,
+    chirpStreamQuery,
+    createChirpBody,
+    credentialsBody,
+    editChirpRequest,
+    emailVerificationBody,
+    followsRequest,
+    getChirpsQuery,
+    getReportsQuery,
+    getWebhookEventsQuery,
+    loginBody,
+    moderationRuleBody,
+    pageQuery,
+    passwordResetConfirmBody,
+    passwordResetRequestBody,
+    polkaWebhookBody,
+    publishChirpRequest,
+    reportChirpRequest,
+    reportIdParams,
+    ruleIdParams,
+    searchChirpsQuery,
+    sessionIdParams,
+    setUserRoleRequest,
+    timelineQuery,
+    unpublishedChirpsQuery,
+    updateModerationRuleRequest,
+    userIdParams,
+    webhookDeliveriesRequest,
+    webhookEventIdParams,
+    webhookSubscriptionBody,
+    webhookSubscriptionIdParams,
+    type RequestSchema,
+} from './validation.js';
+
+export type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// One entry per route registered in app.ts. `path` uses Express syntax and
+// `request` is the same schema passed to middlewareValidate, so the spec
+// describes exactly what the server checks. Error responses implied by
+// `auth`, `role`, `rateLimited` and `request` are added automatically.
+export type Operation = {
+    method: Method;
+    path: string;
+    summary: string;
+    tag: string;
+    // bearer is an access token, refresh a refresh token, polka a signature
+    auth?: 'bearer' | 'refresh' | 'polka' | 'metrics';
+    role?: Role;
+    rateLimited?: boolean;
+    request?: RequestSchema;
+    // Name of the multipart/form-data field carrying an uploaded file
+    upload?: string;
+    responses: Record<number, string>;
+};
+
+export const operations: Operation[] = [
+    {
+        method: 'get',
+        path: '/api/healthz',
+        summary:
+            'Liveness probe, answers as long as the process serves requests',
+        tag: 'Meta',
+        responses: { 200: 'Server is up' },
+    },
+    {
+        method: 'get',
+        path: '/api/readyz',
+        summary:
+            'Readiness probe: checks the database connection and that every migration is applied',
+        tag: 'Meta',
+        responses: {
+            200: 'Ready, with the result of each check',
+            503: 'A check failed or the server is shutting down, with the result of each check',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/openapi.json',
+        summary: 'This OpenAPI document',
+        tag: 'Meta',
+        responses: { 200: 'OpenAPI 3.1 document' },
+    },
+    {
+        method: 'get',
+        path: '/api/docs',
+        summary: 'Interactive API documentation',
+        tag: 'Meta',
+        responses: { 200: 'HTML page' },
+    },
+    {
+        method: 'get',
+        path: '/metrics',
+        summary: 'Prometheus metrics',
+        tag: 'Meta',
+        auth: 'metrics',
+        responses: {
+            200: 'Prometheus text format',
+            404: 'METRICS_TOKEN is not set',
+        },
+    },
+    {
+        method: 'get',
+        path: '/admin/metrics',
+        summary: 'Server visit metrics',
+        tag: 'Admin',
+        role: 'admin',
+        responses: { 200: 'HTML page with the visit count' },
+    },
+    {
+        method: 'post',
+        path: '/admin/reset',
+        summary: 'Reset the visit counter and delete all users',
+        tag: 'Admin',
+        role: 'admin',
+        responses: { 200: 'Reset' },
+    },
+    {
+        method: 'get',
+        path: '/admin/moderation/rules',
+        summary: 'List content moderation rules',
+        tag: 'Moderation',
+        role: 'admin',
+        responses: { 200: 'Rules' },
+    },
+    {
+        method: 'post',
+        path: '/admin/moderation/rules',
+        summary: 'Add a content moderation rule',
+        tag: 'Moderation',
+        role: 'admin',
+        request: moderationRuleBody,
+        responses: { 201: 'Created rule', 409: 'Rule already exists' },
+    },
+    {
+        method: 'put',
+        path: '/admin/moderation/rules/:ruleId',
+        summary: 'Replace a content moderation rule',
+        tag: 'Moderation',
+        role: 'admin',
+        request: updateModerationRuleRequest,
+        responses: {
+            200: 'Updated rule',
+            404: 'Rule not found',
+            409: 'Rule already exists',
+        },
+    },
+    {
+        method: 'delete',
+        path: '/admin/moderation/rules/:ruleId',
+        summary: 'Delete a content moderation rule',
+        tag: 'Moderation',
+        role: 'admin',
+        request: ruleIdParams,
+        responses: { 204: 'Deleted', 404: 'Rule not found' },
+    },
+    {
+        method: 'get',
+        path: '/admin/moderation/queue',
+        summary: 'Chirps held for review, oldest first',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: pageQuery,
+        responses: { 200: 'Page of chirps, see the Link header' },
+    },
+    {
+        method: 'post',
+        path: '/admin/moderation/queue/:chirpId/approve',
+        summary: 'Publish a held chirp',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: chirpIdParams,
+        responses: { 200: 'Published chirp', 404: 'Chirp is not held' },
+    },
+    {
+        method: 'post',
+        path: '/admin/moderation/queue/:chirpId/reject',
+        summary: 'Reject a held chirp',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: chirpIdParams,
+        responses: { 200: 'Rejected chirp', 404: 'Chirp is not held' },
+    },
+    {
+        method: 'get',
+        path: '/admin/reports',
+        summary: 'User reports, oldest first',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: getReportsQuery,
+        responses: { 200: 'Page of reports, see the Link header' },
+    },
+    {
+        method: 'post',
+        path: '/admin/reports/:reportId/dismiss',
+        summary: 'Close a report without action',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: reportIdParams,
+        responses: {
+            200: 'Resolved report',
+            404: 'Report not found',
+            409: 'Report has already been resolved',
+        },
+    },
+    {
+        method: 'post',
+        path: '/admin/reports/:reportId/delete-chirp',
+        summary: 'Delete the reported chirp and close its open reports',
+        tag: 'Moderation',
+        role: 'moderator',
+        request: reportIdParams,
+        responses: {
+            200: 'Resolved report',
+            404: 'Report or chirp not found',
+            409: 'Report has already been resolved',
+        },
+    },
+    {
+        method: 'post',
+        path: '/admin/reports/:reportId/suspend-author',
+        summary: "Suspend the reported chirp's author",
+        tag: 'Moderation',
+        role: 'admin',
+        request: reportIdParams,
+        responses: {
+            200: 'Resolved report',
+            404: 'Report or chirp not found',
+            409: 'Report has already been resolved',
+        },
+    },
+    {
+        method: 'put',
+        path: '/admin/users/:id/role',
+        summary: "Change a user's role",
+        tag: 'Admin',
+        role: 'admin',
+        request: setUserRoleRequest,
+        responses: { 200: 'Updated user', 404: 'User not found' },
+    },
+    {
+        method: 'get',
+        path: '/admin/webhooks/events',
+        summary: 'Received Polka events, newest first',
+        tag: 'Webhooks',
+        role: 'admin',
+        request: getWebhookEventsQuery,
+        responses: { 200: 'Page of events, see the Link header' },
+    },
+    {
+        method: 'get',
+        path: '/admin/webhooks/events/:id',
+        summary: 'A received Polka event with its payload',
+        tag: 'Webhooks',
+        role: 'admin',
+        request: webhookEventIdParams,
+        responses: { 200: 'Event', 404: 'Event not found' },
+    },
+    {
+        method: 'post',
+        path: '/admin/webhooks/events/:id/replay',
+        summary: 'Run a received Polka event again',
+        tag: 'Webhooks',
+        role: 'admin',
+        request: webhookEventIdParams,
+        responses: {
+            200: 'Event with the outcome of the replay',
+            404: 'Event or its user not found',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/users',
+        summary: 'Sign up',
+        tag: 'Users',
+        rateLimited: true,
+        request: credentialsBody,
+        responses: { 201: 'Created user', 409: 'Email already exists' },
+    },
+    {
+        method: 'put',
+        path: '/api/users',
+        summary: 'Update your email and password',
+        tag: 'Users',
+        auth: 'bearer',
+        request: credentialsBody,
+        responses: { 200: 'Updated user', 409: 'Email already exists' },
+    },
+    {
+        method: 'post',
+        path: '/api/users/:id/follow',
+        summary: 'Follow a user',
+        tag: 'Follows',
+        auth: 'bearer',
+        request: userIdParams,
+        responses: { 204: 'Following', 404: 'User not found' },
+    },
+    {
+        method: 'delete',
+        path: '/api/users/:id/follow',
+        summary: 'Unfollow a user',
+        tag: 'Follows',
+        auth: 'bearer',
+        request: userIdParams,
+        responses: { 204: 'Not following' },
+    },
+    {
+        method: 'get',
+        path: '/api/users/:id/followers',
+        summary: "A user's followers, newest first",
+        tag: 'Follows',
+        request: followsRequest,
+        responses: {
+            200: 'Page of followers, see the Link header',
+            404: 'User not found',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/users/:id/following',
+        summary: 'The accounts a user follows, newest first',
+        tag: 'Follows',
+        request: followsRequest,
+        responses: {
+            200: 'Page of followed accounts, see the Link header',
+            404: 'User not found',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/timeline',
+        summary: 'Chirps from the accounts you follow',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: timelineQuery,
+        responses: { 200: 'Page of chirps, see the Link header' },
+    },
+    {
+        method: 'post',
+        path: '/api/login',
+        summary: 'Log in',
+        tag: 'Auth',
+        rateLimited: true,
+        request: loginBody,
+        responses: {
+            200: 'User with an access token and a refresh token',
+            401: 'Incorrect email or password',
+            403: 'Account suspended',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/refresh',
+        summary: 'Rotate a refresh token and get a new access token',
+        tag: 'Auth',
+        auth: 'refresh',
+        responses: { 200: 'New access token and refresh token' },
+    },
+    {
+        method: 'post',
+        path: '/api/revoke',
+        summary: "Log out the refresh token's session",
+        tag: 'Auth',
+        auth: 'refresh',
+        responses: { 204: 'Logged out' },
+    },
+    {
+        method: 'post',
+        path: '/api/password-reset/request',
+        summary: 'Mail a password reset link',
+        tag: 'Auth',
+        rateLimited: true,
+        request: passwordResetRequestBody,
+        responses: { 202: 'Accepted whether or not the account exists' },
+    },
+    {
+        method: 'post',
+        path: '/api/password-reset/confirm',
+        summary: 'Set a new password with a mailed token',
+        tag: 'Auth',
+        request: passwordResetConfirmBody,
+        responses: {
+            204: 'Password changed',
+            400: 'Token is invalid, used or expired',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/email-verification/confirm',
+        summary: 'Verify an email address with a mailed token',
+        tag: 'Auth',
+        request: emailVerificationBody,
+        responses: {
+            204: 'Email verified',
+            400: 'Token is invalid, used or expired',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/email-verification/resend',
+        summary: 'Mail a new verification link',
+        tag: 'Auth',
+        auth: 'bearer',
+        responses: { 202: 'Accepted', 409: 'Email is already verified' },
+    },
+    {
+        method: 'get',
+        path: '/api/login-activity',
+        summary: 'Recent sign-in attempts on your account',
+        tag: 'Auth',
+        auth: 'bearer',
+        request: pageQuery,
+        responses: { 200: 'Page of attempts, see the Link header' },
+    },
+    {
+        method: 'get',
+        path: '/api/sessions',
+        summary: 'List your active sessions',
+        tag: 'Auth',
+        auth: 'bearer',
+        responses: { 200: 'Sessions' },
+    },
+    {
+        method: 'delete',
+        path: '/api/sessions',
+        summary: 'Log out everywhere',
+        tag: 'Auth',
+        auth: 'bearer',
+        responses: { 204: 'Logged out' },
+    },
+    {
+        method: 'delete',
+        path: '/api/sessions/:id',
+        summary: 'Log out one session',
+        tag: 'Auth',
+        auth: 'bearer',
+        request: sessionIdParams,
+        responses: { 204: 'Logged out', 404: 'Session not found' },
+    },
+    {
+        method: 'post',
+        path: '/api/chirps',
+        summary:
+            'Post a chirp, optionally as a reply, a draft or scheduled for publishAt',
+        tag: 'Chirps',
+        auth: 'bearer',
+        rateLimited: true,
+        request: createChirpBody,
+        responses: {
+            201: 'Created chirp',
+            202: 'Chirp held for review',
+            403: 'Account suspended, or publishAt without Chirpy Red',
+            404: 'Chirp to reply to not found',
+            422: 'publishAt is not in the future, or an attachment is not your own unattached upload',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps',
+        summary: 'List chirps',
+        tag: 'Chirps',
+        request: getChirpsQuery,
+        responses: { 200: 'Page of chirps, see the Link header' },
+    },
+    {
+        method: 'post',
+        path: '/api/attachments',
+        summary:
+            'Upload a PNG, JPEG, GIF or WebP image to attach to a chirp with attachmentIds',
+        tag: 'Chirps',
+        auth: 'bearer',
+        rateLimited: true,
+        upload: 'file',
+        responses: {
+            201: 'Stored image with its URL, thumbnail URL and dimensions',
+            400: 'No file, or not a single file in the file field',
+            413: 'File too large',
+            415: 'Not a supported image type',
+            422: 'Image could not be read or has too many pixels',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/drafts',
+        summary: 'Your drafts',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: unpublishedChirpsQuery,
+        responses: { 200: 'Page of chirps, see the Link header' },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/scheduled',
+        summary: 'Your chirps scheduled for later',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: unpublishedChirpsQuery,
+        responses: { 200: 'Page of chirps, see the Link header' },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/stream',
+        summary:
+            'Live chirp.created and chirp.deleted events as Server-Sent Events (also served over WebSocket)',
+        tag: 'Chirps',
+        request: chirpStreamQuery,
+        responses: {
+            200: 'text/event-stream, resumable with the Last-Event-ID header',
+            400: 'Last-Event-ID is not an event id',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/search',
+        summary: 'Full-text search over chirps, best match first',
+        tag: 'Chirps',
+        request: searchChirpsQuery,
+        responses: { 200: 'Page of ranked chirps, see the Link header' },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/:chirpId',
+        summary: 'Get a chirp',
+        tag: 'Chirps',
+        request: chirpIdParams,
+        responses: { 200: 'Chirp', 404: 'Chirp not found' },
+    },
+    {
+        method: 'patch',
+        path: '/api/chirps/:chirpId',
+        summary: 'Edit your chirp',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: editChirpRequest,
+        responses: {
+            200: 'Updated chirp',
+            403: 'Not your chirp, or editing without Chirpy Red',
+            404: 'Chirp not found',
+        },
+    },
+    {
+        method: 'delete',
+        path: '/api/chirps/:chirpId',
+        summary: 'Delete your chirp',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: chirpIdParams,
+        responses: {
+            204: 'Deleted',
+            403: 'Not your chirp',
+            404: 'Chirp not found',
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/:chirpId/thread',
+        summary: "A chirp's ancestors and nested replies",
+        tag: 'Chirps',
+        request: chirpIdParams,
+        responses: { 200: 'Thread', 404: 'Chirp not found' },
+    },
+    {
+        method: 'get',
+        path: '/api/chirps/:chirpId/revisions',
+        summary: "A chirp's previous bodies, oldest first",
+        tag: 'Chirps',
+        request: chirpIdParams,
+        responses: { 200: 'Revisions', 404: 'Chirp not found' },
+    },
+    {
+        method: 'post',
+        path: '/api/chirps/:chirpId/publish',
+        summary:
+            'Publish one of your drafts or scheduled chirps now, or schedule it for publishAt',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: publishChirpRequest,
+        responses: {
+            200: 'Published or scheduled chirp',
+            403: 'publishAt without Chirpy Red',
+            404: 'No unpublished chirp of yours with this id',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/chirps/:chirpId/like',
+        summary: 'Like a chirp',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: chirpIdParams,
+        responses: { 204: 'Liked', 404: 'Chirp not found' },
+    },
+    {
+        method: 'delete',
+        path: '/api/chirps/:chirpId/like',
+        summary: 'Remove your like from a chirp',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: chirpIdParams,
+        responses: { 204: 'Not liked' },
+    },
+    {
+        method: 'post',
+        path: '/api/chirps/:chirpId/report',
+        summary: 'Report a chirp to the moderators',
+        tag: 'Chirps',
+        auth: 'bearer',
+        request: reportChirpRequest,
+        responses: { 202: 'Reported', 404: 'Chirp not found' },
+    },
+    {
+        method: 'post',
+        path: '/api/webhooks',
+        summary: 'Subscribe a URL to events',
+        tag: 'Webhooks',
+        auth: 'bearer',
+        request: webhookSubscriptionBody,
+        responses: { 201: 'Subscription, including its signing secret' },
+    },
+    {
+        method: 'get',
+        path: '/api/webhooks',
+        summary: 'List your webhook subscriptions',
+        tag: 'Webhooks',
+        auth: 'bearer',
+        responses: { 200: 'Subscriptions, without their secrets' },
+    },
+    {
+        method: 'delete',
+        path: '/api/webhooks/:id',
+        summary: 'Delete a webhook subscription',
+        tag: 'Webhooks',
+        auth: 'bearer',
+        request: webhookSubscriptionIdParams,
+        responses: { 204: 'Deleted', 404: 'Subscription not found' },
+    },
+    {
+        method: 'get',
+        path: '/api/webhooks/:id/deliveries',
+        summary: 'Delivery log of a subscription, newest first',
+        tag: 'Webhooks',
+        auth: 'bearer',
+        request: webhookDeliveriesRequest,
+        responses: {
+            200: 'Page of deliveries with their attempts, see the Link header',
+            404: 'Subscription not found',
+        },
+    },
+    {
+        method: 'post',
+        path: '/api/polka/webhooks',
+        summary: 'Payment provider events',
+        tag: 'Webhooks',
+        auth: 'polka',
+        request: polkaWebhookBody,
+        responses: {
+            204: 'Processed, ignored or already received',
+            404: 'User not found',
+        },
+    },
+];
+
+const securitySchemes = {
+    bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    refresh: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Refresh token from POST /api/login',
+    },
+    metrics: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'The METRICS_TOKEN the server was started with',
+    },
+    polka: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'Polka-Signature',
+        description:
+            't=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">',
+    },
+};
+
+const problemSchema = {
+    type: 'object',
+    properties: {
+        type: { type: 'string' },
+        title: { type: 'string' },
+        status: { type: 'integer' },
+        detail: { type: 'string' },
+        instance: { type: 'string' },
+        code: { type: 'string' },
+        requestId: { type: 'string' },
+    },
+    required: ['type', 'title', 'status', 'detail', 'code'],
+};
+
+const validationProblemSchema = {
+    allOf: [
+        { $ref: '#/components/schemas/Problem' },
+        {
+            type: 'object',
+            properties: {
+                fields: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            location: {
+                                type: 'string',
+                                enum: ['body', 'params', 'query'],
+                            },
+                            field: { type: 'string' },
+                            message: { type: 'string' },
+                        },
+                    },
+                },
+            },
+        },
+    ],
+};
+
+// Express paths use :name, OpenAPI paths use {name}
+export function toOpenApiPath(path: string): string {
+    return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+    const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+        target: 'draft-2020-12',
+        io: 'input',
+    });
+    return jsonSchema;
+}
+
+function parameters(location: 'path' | 'query', schema?: z.ZodType) {
+    if (!schema) {
+        return [];
+    }
+    const { properties = {}, required = [] } = toJsonSchema(schema) as {
+        properties?: Record<string, unknown>;
+        required?: string[];
+    };
+    return Object.entries(properties).map(([name, property]) => ({
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        schema: property,
+    }));
+}
+
+function problem(description: string, schema = 'Problem') {
+    return {
+        description,
+        content: {
+            'application/problem+json': {
+                schema: { $ref: `#/components/schemas/${schema}` },
+            },
+        },
+    };
+}
+
+function toOpenApiOperation(operation: Operation) {
+    const { auth, role, rateLimited, request, upload } = operation;
+    const responses: Record<string, unknown> = {};
+    if (request) {
+        responses[400] = problem('Malformed request', 'ValidationProblem');
+        responses[422] = problem('Invalid request', 'ValidationProblem');
+    }
+    if (auth || role) {
+        responses[401] = problem('Missing or invalid credentials');
+    }
+    if (role) {
+        responses[403] = problem(`Requires the ${role} role`);
+    }
+    if (rateLimited) {
+        responses[429] = problem('Rate limited, see Retry-After');
+    }
+    for (const [status, description] of Object.entries(operation.responses)) {
+        responses[status] =
+            Number(status) >= 400 ? problem(description) : { description };
+    }
+
+    return {
+        operationId: `${operation.method} ${operation.path}`,
+        summary: operation.summary,
+        tags: [operation.tag],
+        ...((auth || role) && { security: [{ [auth ?? 'bearer']: [] }] }),
+        parameters: [
+            ...parameters('path', request?.params),
+            ...parameters('query', request?.query),
+        ],
+        ...(upload && {
+            requestBody: {
+                required: true,
+                content: {
+                    'multipart/form-data': {
+                        schema: {
+                            type: 'object',
+                            properties: {
+                                [upload]: { type: 'string', format: 'binary' },
+                            },
+                            required: [upload],
+                        },
+                    },
+                },
+            },
+        }),
+        ...(request?.body && {
+            requestBody: {
+                required: true,
+                content: {
+                    'application/json': { schema: toJsonSchema(request.body) },
+                },
+            },
+        }),
+        responses,
+    };
+}
+
+export function buildOpenApiDocument() {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const operation of operations) {
+        const path = toOpenApiPath(operation.path);
+        paths[path] ??= {};
+        paths[path][operation.method] = toOpenApiOperation(operation);
+    }
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Chirpy API',
+            version: '1.0.0',
+            description:
+                'Errors are RFC 7807 problem documents, branch on their `code`.',
+        },
+        paths,
+        components: {
+            securitySchemes,
+            schemas: {
+                Problem: problemSchema,
+                ValidationProblem: validationProblemSchema,
+            },
+        },
+    };
+}
+
+// The document only depends on code, so it is built once on first request
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+export async function handlerOpenApiDocument(
+    req: Request,
+    res: Response,
+): Promise<void> {
+    openApiDocument ??= buildOpenApiDocument();
+    res.status(200).json(openApiDocument);
+}
+
+// Swagger UI from the swagger-ui-dist package mounted in app.ts, pointed at
+// the document above
+export async function handlerApiDocs(
+    req: Request,
+    res: Response,
+): Promise<void> {
+    res.set('Content-Type', 'text/html; charset=utf-8');
+    res.send(`<!doctype html>
+<html>
+    <head>
+        <title>Chirpy API</title>
+        <link rel="stylesheet" href="/api/docs/assets/swagger-ui.css" />
+    </head>
+    <body>
+        <div id="swagger-ui"></div>
+        <script src="/api/docs/assets/swagger-ui-bundle.js"></script>
+        <script>
+            SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#swagger-ui' });
+        </script>
+    </body>
+</html>`);
+}
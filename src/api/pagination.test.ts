@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildPage,
+    decodeCursor,
+    encodeCursor,
+    parseLimit,
+    DEFAULT_PAGE_LIMIT,
+} from './pagination';
+
+const rows = [1, 2, 3].map((n) => ({
+    id: `00000000-0000-0000-0000-00000000000${n}`,
+    createdAt: new Date(Date.UTC(2025, 0, n)),
+}));
+
+describe('Pagination Cursors', () => {
+    it('should round trip a cursor', () => {
+        const cursor = decodeCursor(encodeCursor(rows[0]));
+        expect(cursor).toEqual(rows[0]);
+    });
+
+    it('should round trip a ranked cursor', () => {
+        const ranked = { ...rows[1], rank: 0.0607927 };
+        expect(decodeCursor(encodeCursor(ranked))).toEqual(ranked);
+    });
+
+    it('should throw on a malformed cursor', () => {
+        expect(() => decodeCursor('not-a-cursor')).toThrow();
+    });
+});
+
+describe('Pagination Limit', () => {
+    it('should default when no limit is given', () => {
+        expect(parseLimit(undefined)).toBe(DEFAULT_PAGE_LIMIT);
+    });
+
+    it('should throw when the limit is out of range', () => {
+        expect(() => parseLimit('0')).toThrow();
+        expect(() => parseLimit('1000')).toThrow();
+    });
+});
+
+describe('Page Building', () => {
+    it('should return a next cursor when there are more rows', () => {
+        const page = buildPage(rows, { limit: 2 });
+        expect(page.items).toHaveLength(2);
+        expect(page.next).toEqual(rows[1]);
+        expect(page.prev).toBeUndefined();
+    });
+
+    it('should restore sort order when paging backwards', () => {
+        const reversed = [...rows].reverse();
+        const page = buildPage(reversed, { limit: 2, before: rows[2] });
+        expect(page.items).toEqual([rows[1], rows[2]]);
+        expect(page.prev).toEqual(rows[1]);
+        expect(page.next).toEqual(rows[2]);
+    });
+});
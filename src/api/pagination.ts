@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { BadRequestError } from './errors.js';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+const UUID_PATTERN =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A cursor points at a single row in a feed ordered by (createdAt, id).
+// The id breaks ties between rows created in the same millisecond.
+// Ranked feeds such as search also carry the row's rank.
+export type Cursor = {
+    createdAt: Date;
+    id: string;
+    rank?: number;
+};
+
+export type PageParams = {
+    limit: number;
+    after?: Cursor;
+    before?: Cursor;
+};
+
+export type Page<T> = {
+    items: T[];
+    next?: Cursor;
+    prev?: Cursor;
+};
+
+// Cursors are opaque to clients: base64url encoded JSON of [createdAt, id, rank?]
+export function encodeCursor(cursor: Cursor): string {
+    const fields: (string | number)[] = [
+        cursor.createdAt.toISOString(),
+        cursor.id,
+    ];
+    if (cursor.rank !== undefined) {
+        fields.push(cursor.rank);
+    }
+    return Buffer.from(JSON.stringify(fields)).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor {
+    try {
+        const [createdAt, id, rank] = JSON.parse(
+            Buffer.from(value, 'base64url').toString('utf8'),
+        );
+        const date = new Date(createdAt);
+        if (
+            typeof createdAt !== 'string' ||
+            typeof id !== 'string' ||
+            isNaN(date.getTime()) ||
+            !UUID_PATTERN.test(id) ||
+            (rank !== undefined && typeof rank !== 'number')
+        ) {
+            throw new Error('malformed cursor');
+        }
+        return { createdAt: date, id, rank };
+    } catch {
+        throw new BadRequestError('Invalid pagination cursor');
+    }
+}
+
+export function parseLimit(value: unknown): number {
+    if (value === undefined) {
+        return DEFAULT_PAGE_LIMIT;
+    }
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+        throw new BadRequestError(
+            `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`,
+        );
+    }
+    return limit;
+}
+
+export function parseTimestamp(value: unknown, name: string): Date | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(String(value));
+    if (typeof value !== 'string' || isNaN(date.getTime())) {
+        throw new BadRequestError(`${name} must be an ISO 8601 timestamp`);
+    }
+    return date;
+}
+
+export function parsePageParams(req: Request): PageParams {
+    const { limit, after, before } = req.query;
+    if (after !== undefined && before !== undefined) {
+        throw new BadRequestError('Use either after or before, not both');
+    }
+    if (
+        (after !== undefined && typeof after !== 'string') ||
+        (before !== undefined && typeof before !== 'string')
+    ) {
+        throw new BadRequestError('Invalid pagination cursor');
+    }
+    return {
+        limit: parseLimit(limit),
+        after: after !== undefined ? decodeCursor(after) : undefined,
+        before: before !== undefined ? decodeCursor(before) : undefined,
+    };
+}
+
+// Queries fetch limit + 1 rows so we know whether another page exists.
+// When paging backwards (before) rows arrive in reverse order and are
+// flipped back so every page is returned in the requested sort order.
+export function buildPage<T extends Cursor>(
+    rows: T[],
+    params: PageParams,
+): Page<T> {
+    const hasMore = rows.length > params.limit;
+    const items = rows.slice(0, params.limit);
+    if (params.before) {
+        items.reverse();
+    }
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (!first || !last) {
+        return { items };
+    }
+
+    if (params.before) {
+        return {
+            items,
+            next: toCursor(last),
+            prev: hasMore ? toCursor(first) : undefined,
+        };
+    }
+    return {
+        items,
+        next: hasMore ? toCursor(last) : undefined,
+        prev: params.after ? toCursor(first) : undefined,
+    };
+}
+
+// Link header (RFC 8288) with next/prev URLs that keep every other query param
+export function setPageLinks<T>(req: Request, res: Response, page: Page<T>) {
+    const links: string[] = [];
+    if (page.next) {
+        links.push(`<${pageUrl(req, 'after', page.next)}>; rel="next"`);
+    }
+    if (page.prev) {
+        links.push(`<${pageUrl(req, 'before', page.prev)}>; rel="prev"`);
+    }
+    if (links.length > 0) {
+        res.set('Link', links.join(', '));
+    }
+}
+
+function pageUrl(req: Request, key: 'after' | 'before', cursor: Cursor) {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(req.query)) {
+        if (
+            name === 'after' ||
+            name === 'before' ||
+            typeof value !== 'string'
+        ) {
+            continue;
+        }
+        params.set(name, value);
+    }
+    params.set(key, encodeCursor(cursor));
+    return `${req.baseUrl}${req.path}?${params.toString()}`;
+}
+
+function toCursor(row: Cursor): Cursor {
+    return { createdAt: row.createdAt, id: row.id, rank: row.rank };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createMemoryStore,
+    longestRefillSeconds,
+    takeToken,
+} from './rateLimit';
+
+const policy = { capacity: 3, refillPerMinute: 6 };
+
+describe('Token Buckets', () => {
+    const start = new Date('2025-01-01T00:00:00Z');
+    const later = (seconds: number) =>
+        new Date(start.getTime() + seconds * 1000);
+
+    it('should start a missing bucket full and take one token', () => {
+        const { bucket, result } = takeToken(undefined, policy, start);
+        expect(bucket).toEqual({ tokens: 2, updatedAt: start });
+        expect(result).toEqual({
+            allowed: true,
+            limit: 3,
+            remaining: 2,
+            resetSeconds: 10,
+            retryAfterSeconds: 0,
+        });
+    });
+
+    it('should reject once the bucket is empty and say when to retry', () => {
+        const empty = { tokens: 0.5, updatedAt: start };
+        const { bucket, result } = takeToken(empty, policy, start);
+        expect(result.allowed).toBe(false);
+        expect(result.remaining).toBe(0);
+        expect(result.retryAfterSeconds).toBe(5);
+        expect(bucket.tokens).toBe(0.5);
+    });
+
+    it('should refill for the elapsed time, up to capacity', () => {
+        const empty = { tokens: 0, updatedAt: start };
+        expect(takeToken(empty, policy, later(10)).result).toMatchObject({
+            allowed: true,
+            remaining: 0,
+        });
+        expect(takeToken(empty, policy, later(3600)).bucket.tokens).toBe(2);
+    });
+});
+
+describe('Memory Rate Limit Store', () => {
+    it('should keep a separate bucket per key', async () => {
+        const now = new Date('2025-01-01T00:00:00Z');
+        const store = createMemoryStore(() => now);
+        for (let i = 0; i < 3; i++) {
+            expect((await store.consume('login:ip:a', policy)).allowed).toBe(
+                true,
+            );
+        }
+        expect((await store.consume('login:ip:a', policy)).allowed).toBe(false);
+        expect((await store.consume('login:ip:b', policy)).allowed).toBe(true);
+    });
+
+    it('should sweep buckets that have refilled', async () => {
+        let now = new Date('2025-01-01T00:00:00Z');
+        const store = createMemoryStore(() => now, 1);
+        await store.consume('a', policy);
+        await store.consume('a', policy);
+        await store.consume('a', policy);
+        now = new Date(now.getTime() + 60_000);
+        // Sweeping 'a' once full must not change what its next request sees
+        await store.consume('b', policy);
+        expect(await store.consume('a', policy)).toMatchObject({
+            allowed: true,
+            remaining: 2,
+        });
+    });
+});
+
+describe('Idle Buckets', () => {
+    it('should wait for the slowest bucket to refill before deleting', () => {
+        expect(
+            longestRefillSeconds({
+                login: {
+                    ip: policy,
+                    user: { capacity: 5, refillPerMinute: 1 },
+                },
+                signup: { ip: { capacity: 5, refillPerMinute: 1 } },
+                passwordReset: { user: { capacity: 3, refillPerMinute: 0.2 } },
+                createChirp: {},
+                uploadAttachment: { ip: policy },
+            }),
+        ).toBe(900);
+    });
+});
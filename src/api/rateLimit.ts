@@ -0,0 +1,143 @@
+import { type BucketPolicy, config, type RateLimitConfig } from '../config.js';
+import {
+    deleteIdleRateLimitBuckets,
+    updateRateLimitBucket,
+} from '../db/queries/rateLimits.js';
+import { logger } from '../logger.js';
+
+export type TokenBucket = {
+    tokens: number;
+    updatedAt: Date;
+};
+
+export type RateLimitResult = {
+    allowed: boolean;
+    limit: number;
+    // Whole requests left in the bucket after this one
+    remaining: number;
+    // Seconds until the bucket is full again
+    resetSeconds: number;
+    // Seconds until the next request would be allowed, 0 when allowed
+    retryAfterSeconds: number;
+};
+
+// Stores decide where buckets live; the bucket math is shared by all of them
+export type RateLimitStore = {
+    consume(key: string, policy: BucketPolicy): Promise<RateLimitResult>;
+};
+
+// Refills the bucket for the time since it was last touched, then takes one
+// token if there is one. A missing bucket starts full.
+export function takeToken(
+    bucket: TokenBucket | undefined,
+    policy: BucketPolicy,
+    now: Date,
+): { bucket: TokenBucket; result: RateLimitResult } {
+    const perSecond = policy.refillPerMinute / 60;
+    const elapsedSeconds = bucket
+        ? Math.max(0, (now.getTime() - bucket.updatedAt.getTime()) / 1000)
+        : 0;
+    let tokens = bucket
+        ? Math.min(policy.capacity, bucket.tokens + elapsedSeconds * perSecond)
+        : policy.capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+        tokens -= 1;
+    }
+    return {
+        bucket: { tokens, updatedAt: now },
+        result: {
+            allowed,
+            limit: policy.capacity,
+            remaining: Math.floor(tokens),
+            resetSeconds: Math.ceil((policy.capacity - tokens) / perSecond),
+            retryAfterSeconds: allowed
+                ? 0
+                : Math.ceil((1 - tokens) / perSecond),
+        },
+    };
+}
+
+// Buckets that have refilled completely are equivalent to missing ones, so
+// they are swept once the map grows past sweepAt
+export function createMemoryStore(
+    now: () => Date = () => new Date(),
+    sweepAt = 10_000,
+): RateLimitStore {
+    const buckets = new Map<string, TokenBucket & { fullAt: number }>();
+    return {
+        async consume(key, policy) {
+            const current = now();
+            if (buckets.size >= sweepAt) {
+                for (const [bucketKey, bucket] of buckets) {
+                    if (bucket.fullAt <= current.getTime()) {
+                        buckets.delete(bucketKey);
+                    }
+                }
+            }
+            const { bucket, result } = takeToken(
+                buckets.get(key),
+                policy,
+                current,
+            );
+            buckets.set(key, {
+                ...bucket,
+                fullAt: current.getTime() + result.resetSeconds * 1000,
+            });
+            return result;
+        },
+    };
+}
+
+export function createPostgresStore(): RateLimitStore {
+    return {
+        async consume(key, policy) {
+            return updateRateLimitBucket(key, (bucket) =>
+                takeToken(bucket, policy, new Date()),
+            );
+        },
+    };
+}
+
+export const rateLimitStore =
+    config.rateLimit.store === 'postgres'
+        ? createPostgresStore()
+        : createMemoryStore();
+
+// The longest time any bucket takes to refill from empty. Plans scale
+// capacity and refill rate alike, so this holds for every plan.
+export function longestRefillSeconds(
+    policies: RateLimitConfig['policies'],
+): number {
+    let longest = 0;
+    for (const policy of Object.values(policies)) {
+        for (const bucket of [policy.ip, policy.user]) {
+            if (bucket) {
+                longest = Math.max(
+                    longest,
+                    (bucket.capacity / bucket.refillPerMinute) * 60,
+                );
+            }
+        }
+    }
+    return Math.ceil(longest);
+}
+
+// Deletes postgres buckets idle long enough to have refilled until the
+// returned function is called. The memory store sweeps itself.
+export function startRateLimitCleanup(
+    options: RateLimitConfig = config.rateLimit,
+): () => void {
+    if (options.store !== 'postgres') {
+        return () => {};
+    }
+    const idleSeconds = longestRefillSeconds(options.policies);
+    const timer = setInterval(() => {
+        const cutoff = new Date(Date.now() - idleSeconds * 1000);
+        deleteIdleRateLimitBuckets(cutoff).catch((error) => {
+            logger.error('rate limit cleanup failed', { error });
+        });
+    }, options.cleanupIntervalMs);
+    return () => clearInterval(timer);
+}
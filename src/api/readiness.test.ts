@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { countPendingMigrations, runCheck } from './readiness';
+
+describe('Pending Migrations', () => {
+    const journal = [1000, 2000, 3000];
+
+    it('should count migrations newer than the latest applied', () => {
+        expect(countPendingMigrations(journal, 3000)).toBe(0);
+        expect(countPendingMigrations(journal, 1000)).toBe(2);
+    });
+
+    it('should count every migration when none were applied', () => {
+        expect(countPendingMigrations(journal, undefined)).toBe(3);
+    });
+});
+
+describe('Readiness Checks', () => {
+    it('should pass the details of a check through', async () => {
+        const result = await runCheck('test', async () => ({
+            status: 'ok',
+            pending: 0,
+        }));
+        expect(result).toMatchObject({ status: 'ok', pending: 0 });
+        expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should fail checks that throw without exposing the error', async () => {
+        const result = await runCheck('test', async () => {
+            throw new Error('connect ECONNREFUSED 10.0.0.5:5432');
+        });
+        expect(result).toMatchObject({ status: 'failed', error: 'failed' });
+        expect(JSON.stringify(result)).not.toContain('10.0.0.5');
+    });
+
+    it('should fail checks that take too long', async () => {
+        const result = await runCheck('test', () => new Promise(() => {}), 50);
+        expect(result).toMatchObject({ status: 'failed', error: 'timed out' });
+    });
+});
@@ -1,9 +1,108 @@
 import { Request, Response } from 'express';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { isShuttingDown } from '../shutdown.js';
+import {
+    getLatestAppliedMigration,
+    pingDatabase,
+} from '../db/queries/health.js';
 
-export async function handlerReadiness(
+// Liveness: the process is up and serving requests. Deliberately checks
+// nothing else, so an outage of Postgres does not get the server restarted.
+export async function handlerLiveness(
     req: Request,
     res: Response,
 ): Promise<void> {
     res.set('Content-Type', 'text/plain; charset=utf-8');
     res.send('OK');
 }
+
+export type CheckResult = {
+    status: 'ok' | 'failed';
+    durationMs: number;
+    error?: string;
+    [detail: string]: unknown;
+};
+
+// Readiness: whether this instance should get traffic. 503 while a check
+// fails or the server is shutting down, with the result of every check.
+export async function handlerReadiness(req: Request, res: Response) {
+    const [database, migrations] = await Promise.all([
+        runCheck('database', async () => {
+            await pingDatabase();
+            return { status: 'ok' };
+        }),
+        runCheck('migrations', checkMigrations),
+    ]);
+    const checks = { database, migrations };
+    const failed = Object.values(checks).some((c) => c.status !== 'ok');
+    const status = isShuttingDown()
+        ? 'shutting_down'
+        : failed
+          ? 'unavailable'
+          : 'ready';
+    res.status(status === 'ready' ? 200 : 503)
+        .set('Cache-Control', 'no-store')
+        .json({ status, checks });
+}
+
+// The migrations folder is part of the deployment, so it is read once
+let migrationTimes: number[] | undefined;
+
+// Pending migrations mean the schema is older than this code expects, e.g.
+// while another instance is still migrating
+async function checkMigrations() {
+    migrationTimes ??= readMigrationFiles(config.db.migrationConfig).map(
+        (migration) => migration.folderMillis,
+    );
+    const latest = await getLatestAppliedMigration(config.db.migrationConfig);
+    const pending = countPendingMigrations(migrationTimes, latest);
+    return {
+        status: pending === 0 ? 'ok' : 'failed',
+        applied: migrationTimes.length - pending,
+        pending,
+    } as const;
+}
+
+// drizzle's migrator applies every migration newer than the latest applied
+export function countPendingMigrations(
+    migrationTimes: number[],
+    latestApplied: number | undefined,
+): number {
+    return migrationTimes.filter(
+        (time) => latestApplied === undefined || time > latestApplied,
+    ).length;
+}
+
+// Errors and timeouts fail the check. Error details are logged rather than
+// returned, the endpoint is public.
+export async function runCheck(
+    name: string,
+    check: () => Promise<{ status: 'ok' | 'failed' } & Record<string, unknown>>,
+    timeoutMs = config.lifecycle.readinessTimeoutMs,
+): Promise<CheckResult> {
+    const start = performance.now();
+    const durationMs = () => Math.round(performance.now() - start);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+        timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+    try {
+        const result = await Promise.race([check(), timeout]);
+        if (result === 'timeout') {
+            logger.warn('readiness check timed out', { check: name });
+            return {
+                status: 'failed',
+                durationMs: durationMs(),
+                error: 'timed out',
+            };
+        }
+        return { ...result, durationMs: durationMs() };
+    } catch (error) {
+        logger.warn('readiness check failed', { check: name, error });
+        return { status: 'failed', durationMs: durationMs(), error: 'failed' };
+    } finally {
+        clearTimeout(timer);
+    }
+}
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { ConflictError, NotFoundError, UnprocessableError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import { deleteChirp, getChirpById } from '../db/queries/chirps.js';
+import {
+    createReport,
+    getReportById,
+    getReports,
+    resolveChirpReports,
+    resolveReport,
+} from '../db/queries/reports.js';
+import { suspendUser } from '../db/queries/users.js';
+import { revokeUserRefreshTokens } from '../db/queries/tokens.js';
+import { reportReason, type ReportStatus } from '../db/schema.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+import { announceChirpDeleted, isAnnounced } from '../chirpEvents.js';
+import { removeAttachmentFiles } from '../attachments.js';
+
+type ReportReason = (typeof reportReason.enumValues)[number];
+
+// Reporting the same chirp twice is not an error, the first report stands
+export async function handlerReportChirp(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const chirpId = req.params.chirpId;
+    const { reason, details }: { reason: ReportReason; details?: string } =
+        req.body;
+    const chirp = await getChirpById(chirpId);
+    if (!chirp) {
+        throw new NotFoundError('Chirp not found');
+    } else if (chirp.userId === userId) {
+        throw new UnprocessableError(
+            'You cannot report your own chirp',
+            'own_chirp_report',
+        );
+    }
+
+    await createReport({
+        chirpId,
+        reporterId: userId,
+        reason,
+        details,
+    });
+    res.status(202).send();
+}
+
+// Defaults to open reports, oldest first
+export async function handlerGetReports(req: Request, res: Response) {
+    const status = (req.query.status ?? 'open') as ReportStatus;
+    const pageParams = parsePageParams(req);
+    const page = buildPage(await getReports(status, pageParams), pageParams);
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+export async function handlerDismissReport(req: Request, res: Response) {
+    const report = await getOpenReport(req.params.reportId);
+    await resolveReport(report.id, 'dismissed');
+    res.status(200).json(await getReportById(report.id));
+}
+
+// Deletes the chirp the way its author would and closes every open report
+// about it
+export async function handlerDeleteReportedChirp(req: Request, res: Response) {
+    const report = await getOpenReport(req.params.reportId);
+    if (!report.chirpId || !report.chirpAuthorId) {
+        throw new NotFoundError('Reported chirp no longer exists');
+    }
+    const chirp = await getChirpById(report.chirpId, report.chirpAuthorId);
+    await resolveChirpReports(report.chirpId, 'chirp_deleted');
+    await removeAttachmentFiles(
+        await deleteChirp(report.chirpId, report.chirpAuthorId),
+    );
+    // Subscribers only hear about chirps they were told about
+    if (chirp && isAnnounced(chirp)) {
+        await announceChirpDeleted(chirp);
+    }
+    res.status(200).json(await getReportById(report.id));
+}
+
+// Suspended users can no longer log in, refresh tokens or chirp, and their
+// existing refresh tokens are revoked
+export async function handlerSuspendReportedAuthor(
+    req: Request,
+    res: Response,
+) {
+    const report = await getOpenReport(req.params.reportId);
+    if (!report.chirpAuthorId) {
+        throw new NotFoundError('Reported chirp no longer exists');
+    }
+    await suspendUser(report.chirpAuthorId);
+    await revokeUserRefreshTokens(report.chirpAuthorId);
+    await resolveReport(report.id, 'author_suspended');
+    res.status(200).json(await getReportById(report.id));
+}
+
+async function getOpenReport(reportId: string) {
+    const report = await getReportById(reportId);
+    if (!report) {
+        throw new NotFoundError('Report not found');
+    } else if (report.status !== 'open') {
+        throw new ConflictError('Report has already been resolved');
+    }
+    return report;
+}
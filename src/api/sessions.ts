@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import { NotFoundError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import {
+    getUserSessions,
+    revokeRefreshTokenFamily,
+    revokeUserRefreshTokens,
+} from '../db/queries/tokens.js';
+
+// Sessions are logins that still hold a usable refresh token, newest use first
+export async function handlerGetSessions(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const sessions = await getUserSessions(userId);
+    res.status(200).json(sessions);
+}
+
+// Access tokens already issued to the session stay valid until they expire
+export async function handlerRevokeSession(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const revoked = await revokeRefreshTokenFamily(req.params.id, userId);
+    if (!revoked) {
+        throw new NotFoundError('Session not found');
+    }
+    res.status(204).send();
+}
+
+// Log out everywhere
+export async function handlerRevokeAllSessions(req: Request, res: Response) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    await revokeUserRefreshTokens(userId);
+    res.status(204).send();
+}
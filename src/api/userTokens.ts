@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import crypto from 'node:crypto';
+import { BadRequestError, ConflictError, NotFoundError } from './errors.js';
+import {
+    getBearerToken,
+    hashPassword,
+    hashToken,
+    validateJWT,
+} from './auth.js';
+import { config } from '../config.js';
+import {
+    getUserByEmail,
+    getUserById,
+    updateUser,
+    verifyUserEmail,
+} from '../db/queries/users.js';
+import { consumeUserToken, createUserToken } from '../db/queries/userTokens.js';
+import { revokeUserRefreshTokens } from '../db/queries/tokens.js';
+import { type UserTokenPurpose } from '../db/schema.js';
+import { mailer, type MailMessage } from '../mailer.js';
+import { logger } from '../logger.js';
+
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60;
+const EMAIL_VERIFICATION_TTL_MS = 1000 * 60 * 60 * 24;
+
+// Mails a verification link for the user's current address. Called on
+// signup and whenever the email changes.
+export async function sendEmailVerification(
+    res: Response,
+    user: { id: string; email: string },
+) {
+    const token = await issueToken(
+        user,
+        'email_verification',
+        EMAIL_VERIFICATION_TTL_MS,
+    );
+    deliver(res, {
+        to: user.email,
+        subject: 'Verify your Chirpy email address',
+        text: [
+            'Confirm that this is your email address by opening:',
+            `${config.mail.appUrl}/verify-email?token=${token}`,
+            '',
+            'The link expires in 24 hours.',
+        ].join('\n'),
+    });
+}
+
+// Always 202 so the response does not reveal whether the email has an account
+export async function handlerRequestPasswordReset(req: Request, res: Response) {
+    const { email } = req.body ?? {};
+    if (typeof email !== 'string' || !email) {
+        throw new BadRequestError('Email is required');
+    }
+    const user = await getUserByEmail(email);
+    if (user) {
+        const token = await issueToken(
+            user,
+            'password_reset',
+            PASSWORD_RESET_TTL_MS,
+        );
+        deliver(res, {
+            to: user.email,
+            subject: 'Reset your Chirpy password',
+            text: [
+                'Someone asked to reset the password of your Chirpy account.',
+                'If it was you, choose a new password by opening:',
+                `${config.mail.appUrl}/reset-password?token=${token}`,
+                '',
+                'The link expires in 1 hour. If it was not you, ignore this mail.',
+            ].join('\n'),
+        });
+    }
+    res.status(202).send();
+}
+
+// Sets the new password and logs the account out everywhere, since whoever
+// knew the old password may still hold a session
+export async function handlerConfirmPasswordReset(req: Request, res: Response) {
+    const { token, password } = req.body ?? {};
+    if (typeof token !== 'string' || typeof password !== 'string') {
+        throw new BadRequestError('Token and password are required');
+    } else if (!password) {
+        throw new BadRequestError('Password is required');
+    }
+    const used = await consumeUserToken(hashToken(token), 'password_reset');
+    if (!used) {
+        throw new BadRequestError('Invalid or expired token', 'invalid_token');
+    }
+    const hashedPassword = await hashPassword(password);
+    await updateUser(used.userId, { hashedPassword });
+    await revokeUserRefreshTokens(used.userId);
+    res.status(204).send();
+}
+
+export async function handlerConfirmEmailVerification(
+    req: Request,
+    res: Response,
+) {
+    const { token } = req.body ?? {};
+    if (typeof token !== 'string') {
+        throw new BadRequestError('Token is required');
+    }
+    const used = await consumeUserToken(hashToken(token), 'email_verification');
+    const user = used && (await verifyUserEmail(used.userId, used.email));
+    if (!user) {
+        throw new BadRequestError('Invalid or expired token', 'invalid_token');
+    }
+    res.status(204).send();
+}
+
+export async function handlerResendEmailVerification(
+    req: Request,
+    res: Response,
+) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const user = await getUserById(userId);
+    if (!user) {
+        throw new NotFoundError('User not found');
+    } else if (user.emailVerifiedAt) {
+        throw new ConflictError('Email is already verified');
+    }
+    await sendEmailVerification(res, user);
+    res.status(202).send();
+}
+
+async function issueToken(
+    user: { id: string; email: string },
+    purpose: UserTokenPurpose,
+    ttlMs: number,
+): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    await createUserToken({
+        tokenHash: hashToken(token),
+        userId: user.id,
+        purpose,
+        email: user.email,
+        expiresAt: new Date(Date.now() + ttlMs),
+    });
+    return token;
+}
+
+// Sent in the background: a slow or failing mail server must neither delay
+// the response, which would reveal that the account exists, nor fail it
+function deliver(res: Response, message: MailMessage) {
+    const log = res.locals.logger ?? logger;
+    mailer.send(message).catch((error) => {
+        log.error('mail delivery failed', { to: message.to, error });
+    });
+}
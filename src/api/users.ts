@@ -1,40 +1,57 @@
 import { Request, Response } from 'express';
-import { createUser, updateUser } from '../db/queries/users.js';
-import { BadRequestError } from './errors.js';
+import {
+    createUser,
+    getUserById,
+    setUserRole,
+    updateUser,
+} from '../db/queries/users.js';
+import {
+    BadRequestError,
+    ConflictError,
+    NotFoundError,
+    UnprocessableError,
+} from './errors.js';
 import { hashPassword, validateJWT, getBearerToken } from './auth.js';
-import { type NewUser } from '../db/schema.js';
+import { type NewUser, type Role } from '../db/schema.js';
 import { config } from '../config.js';
+import { sendEmailVerification } from './userTokens.js';
+import {
+    entitlementsOf,
+    planOf,
+    type Entitlements,
+    type Plan,
+} from './entitlements.js';
 
 export async function handlerAddUser(
     req: Request,
     res: Response,
 ): Promise<void> {
-    try {
-        const { email, password } = req.body;
-        if (!email || !password) {
-            throw new BadRequestError('Email and password are required');
-        }
-
-        const hashedPassword = await hashPassword(password);
-        const user = await createUser({ email, hashedPassword });
-
-        if (!user) {
-            throw new BadRequestError('Email already exists');
-        }
-
-        const userResponse: UserResponse = {
-            id: user.id,
-            createdAt: user.createdAt,
-            updatedAt: user.updatedAt,
-            email: user.email,
-            isChirpyRed: user.isChirpyRed,
-        };
-
-        res.status(201).json(userResponse);
-    } catch (error) {
-        console.error('Error in handlerAddUser:', error);
-        throw error;
+    const { email, password } = req.body;
+    if (!email || !password) {
+        throw new BadRequestError('Email and password are required');
+    }
+
+    const hashedPassword = await hashPassword(password);
+    const user = await createUser({ email, hashedPassword });
+
+    if (!user) {
+        throw new ConflictError('Email already exists', 'email_taken');
     }
+    await sendEmailVerification(res, user);
+
+    const userResponse: UserResponse = {
+        id: user.id,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+        email: user.email,
+        isChirpyRed: user.isChirpyRed,
+        plan: planOf(user),
+        entitlements: entitlementsOf(user),
+        role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
+    };
+
+    res.status(201).json(userResponse);
 }
 
 export async function handlerUpdateUser(req: Request, res: Response) {
@@ -44,10 +61,51 @@ export async function handlerUpdateUser(req: Request, res: Response) {
     if (!email || !password) {
         throw new BadRequestError('Email and password are required');
     }
+    const current = await getUserById(userId);
+    if (!current) {
+        throw new NotFoundError('User not found');
+    }
+    const emailChanged = email !== current.email;
     const hashedPassword = await hashPassword(password);
-    const user = await updateUser(userId, { email, hashedPassword });
+    const user = await updateUser(userId, {
+        email,
+        hashedPassword,
+        ...(emailChanged && { emailVerifiedAt: null }),
+    });
+    if (!user) {
+        throw new NotFoundError('User not found');
+    }
+    if (emailChanged) {
+        await sendEmailVerification(res, user);
+    }
+    const userResponse: UserResponse = {
+        id: user.id,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+        email: user.email,
+        isChirpyRed: user.isChirpyRed,
+        plan: planOf(user),
+        entitlements: entitlementsOf(user),
+        role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
+    };
+    res.status(200).json(userResponse);
+}
+
+// Only admins reach this handler, see middlewareRequireRole in app.ts
+export async function handlerSetUserRole(req: Request, res: Response) {
+    const userId = req.params.id;
+    const { role }: { role: Role } = req.body;
+    // Keeps the last admin from locking everyone out by accident
+    if (userId === res.locals.userId) {
+        throw new UnprocessableError(
+            'You cannot change your own role',
+            'own_role_change',
+        );
+    }
+    const user = await setUserRole(userId, role);
     if (!user) {
-        throw new BadRequestError('User not found');
+        throw new NotFoundError('User not found');
     }
     const userResponse: UserResponse = {
         id: user.id,
@@ -55,8 +113,15 @@ export async function handlerUpdateUser(req: Request, res: Response) {
         updatedAt: user.updatedAt,
         email: user.email,
         isChirpyRed: user.isChirpyRed,
+        plan: planOf(user),
+        entitlements: entitlementsOf(user),
+        role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
     };
     res.status(200).json(userResponse);
 }
 
-type UserResponse = Omit<NewUser, 'hashedPassword'>;
+type UserResponse = Omit<NewUser, 'hashedPassword' | 'suspendedAt'> & {
+    plan: Plan;
+    entitlements: Entitlements;
+};
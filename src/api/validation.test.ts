@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { Request, Response } from 'express';
+import { middlewareValidate } from './middlewares';
+import { ValidationError } from './errors';
+import {
+    createChirpBody,
+    credentialsBody,
+    editChirpRequest,
+    getChirpsQuery,
+    loginBody,
+    polkaWebhookBody,
+    type RequestSchema,
+} from './validation';
+
+async function validate(
+    schema: RequestSchema,
+    fields: Partial<Request>,
+): Promise<{ error?: ValidationError; req: Request }> {
+    const req = { params: {}, query: {}, ...fields } as Request;
+    let error: ValidationError | undefined;
+    await middlewareValidate(schema)(req, {} as Response, (err?: unknown) => {
+        error = err as ValidationError | undefined;
+    });
+    return { error, req };
+}
+
+const chirpId = '0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9';
+
+describe('Request Validation', () => {
+    it('should pass valid requests through', async () => {
+        const { error } = await validate(credentialsBody, {
+            body: { email: 'user@example.com', password: 'securePass123' },
+        });
+        expect(error).toBeUndefined();
+    });
+
+    it('should replace the body with the parsed one', async () => {
+        const { error, req } = await validate(createChirpBody, {
+            body: { body: 'Hello', extra: true },
+        });
+        expect(error).toBeUndefined();
+        expect(req.body).toEqual({ body: 'Hello' });
+    });
+
+    it('should return 400 when a field is missing or has the wrong type', async () => {
+        const { error } = await validate(createChirpBody, {
+            body: { body: 42 },
+        });
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error?.status).toBe(400);
+        expect(error?.fields).toEqual([
+            { location: 'body', field: 'body', message: 'body is required' },
+        ]);
+    });
+
+    it('should refuse login emails longer than any stored email', async () => {
+        const { error } = await validate(loginBody, {
+            body: { email: `${'a'.repeat(250)}@example.com`, password: 'x' },
+        });
+        expect(error?.status).toBe(422);
+        expect(error?.fields.map((f) => f.field)).toEqual(['email']);
+    });
+
+    it('should refuse Polka event ids longer than the column', async () => {
+        const { error } = await validate(polkaWebhookBody, {
+            body: {
+                id: 'e'.repeat(256),
+                event: 'user.upgraded',
+                data: { userId: chirpId },
+            },
+        });
+        expect(error?.status).toBe(422);
+        expect(error?.fields).toEqual([
+            {
+                location: 'body',
+                field: 'id',
+                message: 'id must be at most 255 characters',
+            },
+        ]);
+    });
+
+    it('should treat a missing body like an empty one', async () => {
+        const { error } = await validate(createChirpBody, {});
+        expect(error?.status).toBe(400);
+        expect(error?.fields.map((f) => f.field)).toEqual(['body']);
+    });
+
+    it('should return 422 listing every field that breaks a rule', async () => {
+        const { error } = await validate(credentialsBody, {
+            body: { email: 'not-an-email', password: 'short' },
+        });
+        expect(error?.status).toBe(422);
+        expect(error?.fields).toEqual([
+            {
+                location: 'body',
+                field: 'email',
+                message: 'email must be a valid email address',
+            },
+            {
+                location: 'body',
+                field: 'password',
+                message: 'password must be at least 8 characters',
+            },
+            {
+                location: 'body',
+                field: 'password',
+                message: 'password must contain a digit',
+            },
+        ]);
+    });
+
+    it('should check params and query', async () => {
+        const { error } = await validate(editChirpRequest, {
+            params: { chirpId: 'nope' },
+            body: { body: 'edited' },
+        });
+        expect(error?.fields).toEqual([
+            {
+                location: 'params',
+                field: 'chirpId',
+                message: 'chirpId must be a UUID',
+            },
+        ]);
+
+        const query = await validate(getChirpsQuery, {
+            query: { sort: 'sideways', since: 'yesterday' },
+        });
+        expect(query.error?.status).toBe(422);
+        expect(query.error?.fields.map((f) => f.field)).toEqual([
+            'sort',
+            'since',
+        ]);
+    });
+
+    it('should refuse a draft with a publish time', async () => {
+        const { error } = await validate(createChirpBody, {
+            body: {
+                body: 'Later',
+                draft: true,
+                publishAt: '2030-01-01T00:00:00Z',
+            },
+        });
+        expect(error?.status).toBe(422);
+        expect(error?.fields).toEqual([
+            {
+                location: 'body',
+                field: 'publishAt',
+                message: 'a draft cannot have a publishAt',
+            },
+        ]);
+
+        const scheduled = await validate(createChirpBody, {
+            body: { body: 'Later', publishAt: '2030-01-01T00:00:00Z' },
+        });
+        expect(scheduled.error).toBeUndefined();
+    });
+
+    it('should accept a valid UUID param', async () => {
+        const { error } = await validate(editChirpRequest, {
+            params: { chirpId },
+            body: { body: 'edited' },
+        });
+        expect(error).toBeUndefined();
+    });
+});
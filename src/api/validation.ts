@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { config } from '../config.js';
+import {
+    moderationAction,
+    moderationRuleKind,
+    outboundEventType,
+    reportReason,
+    reportStatus,
+    userRole,
+    webhookEventStatus,
+} from '../db/schema.js';
+
+// Request schemas are declared per route in app.ts and checked by
+// middlewareValidate before the handler runs. Only the parts a route
+// declares are checked; unknown fields are ignored.
+export type RequestSchema = {
+    body?: z.ZodType;
+    params?: z.ZodType;
+    query?: z.ZodType;
+};
+
+// Shared fields
+
+const uuid = (name: string) => z.uuid({ error: `${name} must be a UUID` });
+
+const email = z
+    .email({ error: 'email must be a valid email address' })
+    .max(255, { error: 'email must be at most 255 characters' });
+
+// bcrypt ignores everything past 72 bytes, so longer passwords are refused
+// rather than silently truncated
+const password = z
+    .string({ error: 'password is required' })
+    .min(8, { error: 'password must be at least 8 characters' })
+    .max(72, { error: 'password must be at most 72 characters' })
+    .regex(/[A-Za-z]/, { error: 'password must contain a letter' })
+    .regex(/[0-9]/, { error: 'password must contain a digit' });
+
+const token = z.string({ error: 'token is required' }).min(1, {
+    error: 'token is required',
+});
+
+const timestamp = (name: string) =>
+    z.iso.datetime({
+        offset: true,
+        error: `${name} must be an ISO 8601 timestamp`,
+    });
+
+const enumOf = <T extends readonly [string, ...string[]]>(
+    name: string,
+    values: T,
+) => z.enum(values, { error: `${name} must be one of ${values.join(', ')}` });
+
+const sort = enumOf('sort', ['asc', 'desc'] as const).optional();
+
+// Cursors are decoded and checked by parsePageParams
+const page = {
+    limit: z
+        .string()
+        .regex(/^\d+$/, { error: 'limit must be a positive integer' })
+        .optional(),
+    after: z.string({ error: 'after must be a single cursor' }).optional(),
+    before: z.string({ error: 'before must be a single cursor' }).optional(),
+};
+
+const params = (...names: string[]) =>
+    z.object(Object.fromEntries(names.map((name) => [name, uuid(name)])));
+
+// Route schemas
+
+export const chirpIdParams = { params: params('chirpId') };
+export const userIdParams = { params: params('id') };
+export const ruleIdParams = { params: params('ruleId') };
+export const reportIdParams = { params: params('reportId') };
+export const sessionIdParams = { params: params('id') };
+export const pageQuery = { query: z.object(page) };
+
+export const credentialsBody = {
+    body: z.object({ email, password }),
+};
+
+// Not checked as an address, but no longer than any stored email: login
+// attempts are recorded with the email as given
+export const loginBody = {
+    body: z.object({
+        email: z
+            .string({ error: 'email is required' })
+            .max(255, { error: 'email must be at most 255 characters' }),
+        password: z.string({ error: 'password is required' }),
+    }),
+};
+
+export const passwordResetRequestBody = {
+    body: z.object({ email }),
+};
+
+export const passwordResetConfirmBody = {
+    body: z.object({ token, password }),
+};
+
+export const emailVerificationBody = {
+    body: z.object({ token }),
+};
+
+// Whether publishAt is in the future is checked by the handler
+export const createChirpBody = {
+    body: z
+        .object({
+            body: z.string({ error: 'body is required' }),
+            replyToId: uuid('replyToId').optional(),
+            publishAt: timestamp('publishAt').optional(),
+            draft: z.boolean({ error: 'draft must be a boolean' }).optional(),
+            attachmentIds: z
+                .array(uuid('attachmentIds'), {
+                    error: 'attachmentIds must be an array',
+                })
+                .max(config.attachments.maxPerChirp, {
+                    error: `a chirp can have at most ${config.attachments.maxPerChirp} attachments`,
+                })
+                .optional(),
+        })
+        .refine((chirp) => !(chirp.draft && chirp.publishAt), {
+            error: 'a draft cannot have a publishAt',
+            path: ['publishAt'],
+        }),
+};
+
+export const publishChirpRequest = {
+    ...chirpIdParams,
+    body: z.object({ publishAt: timestamp('publishAt').optional() }),
+};
+
+export const unpublishedChirpsQuery = {
+    query: z.object({ ...page, sort }),
+};
+
+// lastEventId stands in for the Last-Event-ID header, which WebSocket
+// clients cannot send
+export const chirpStreamQuery = {
+    query: z.object({
+        authorId: uuid('authorId').optional(),
+        lastEventId: z
+            .string()
+            .regex(/^\d+$/, { error: 'lastEventId must be an event id' })
+            .optional(),
+    }),
+};
+
+export const editChirpRequest = {
+    ...chirpIdParams,
+    body: z.object({ body: z.string({ error: 'body is required' }) }),
+};
+
+export const getChirpsQuery = {
+    query: z.object({
+        ...page,
+        authorId: uuid('authorId').optional(),
+        sort,
+        since: timestamp('since').optional(),
+        until: timestamp('until').optional(),
+    }),
+};
+
+export const searchChirpsQuery = {
+    query: z.object({
+        ...page,
+        q: z.string({ error: 'Search query q is required' }).trim().min(1, {
+            error: 'Search query q is required',
+        }),
+        authorId: uuid('authorId').optional(),
+    }),
+};
+
+export const timelineQuery = {
+    query: z.object({ ...page, sort }),
+};
+
+export const followsRequest = {
+    ...userIdParams,
+    ...pageQuery,
+};
+
+export const reportChirpRequest = {
+    ...chirpIdParams,
+    body: z.object({
+        reason: enumOf('reason', reportReason.enumValues),
+        details: z
+            .string()
+            .max(500, { error: 'details must be at most 500 characters' })
+            .optional(),
+    }),
+};
+
+export const getReportsQuery = {
+    query: z.object({
+        ...page,
+        status: enumOf('status', reportStatus.enumValues).optional(),
+    }),
+};
+
+export const moderationRuleBody = {
+    body: z.object({
+        pattern: z
+            .string({ error: 'pattern is required' })
+            .trim()
+            .min(1, { error: 'pattern is required' })
+            .max(config.moderation.maxPatternLength, {
+                error: `pattern must be at most ${config.moderation.maxPatternLength} characters`,
+            }),
+        kind: enumOf('kind', moderationRuleKind.enumValues).optional(),
+        action: enumOf('action', moderationAction.enumValues).optional(),
+    }),
+};
+
+export const updateModerationRuleRequest = {
+    ...ruleIdParams,
+    ...moderationRuleBody,
+};
+
+export const setUserRoleRequest = {
+    ...userIdParams,
+    body: z.object({ role: enumOf('role', userRole.enumValues) }),
+};
+
+// Unknown fields are kept so the stored event is what Polka sent, and events
+// we do not handle are acknowledged, so only the shape every event shares is
+// required
+export const polkaWebhookBody = {
+    body: z.looseObject({
+        id: z
+            .string({ error: 'id is required' })
+            .min(1, { error: 'id is required' })
+            .max(255, { error: 'id must be at most 255 characters' }),
+        event: z.string({ error: 'event is required' }),
+        data: z.looseObject(
+            { userId: uuid('data.userId') },
+            { error: 'data is required' },
+        ),
+    }),
+};
+
+export const webhookEventIdParams = { params: params('id') };
+
+export const getWebhookEventsQuery = {
+    query: z.object({
+        ...page,
+        status: enumOf('status', webhookEventStatus.enumValues).optional(),
+    }),
+};
+
+export const webhookSubscriptionBody = {
+    body: z.object({
+        url: z
+            .url({
+                protocol: /^https?$/,
+                error: 'url must be an http or https URL',
+            })
+            .max(2048, { error: 'url must be at most 2048 characters' }),
+        events: z
+            .array(enumOf('events', outboundEventType.enumValues), {
+                error: 'events is required',
+            })
+            .min(1, { error: 'events must not be empty' }),
+    }),
+};
+
+export const webhookSubscriptionIdParams = { params: params('id') };
+
+export const webhookDeliveriesRequest = {
+    ...webhookSubscriptionIdParams,
+    ...pageQuery,
+};
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import crypto from 'node:crypto';
+import { NotFoundError, UnprocessableError } from './errors.js';
+import { getBearerToken, validateJWT } from './auth.js';
+import { config } from '../config.js';
+import {
+    createWebhookSubscription,
+    deleteWebhookSubscription,
+    getUserWebhookSubscriptions,
+    getWebhookSubscriptionById,
+} from '../db/queries/webhookSubscriptions.js';
+import { getSubscriptionDeliveries } from '../db/queries/webhookDeliveries.js';
+import { type OutboundEventType } from '../db/schema.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+import {
+    PrivateAddressError,
+    resolvePublicAddresses,
+} from '../outboundWebhooks.js';
+
+// The secret is only returned when the subscription is created
+export async function handlerCreateWebhookSubscription(
+    req: Request,
+    res: Response,
+) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const { url, events } = req.body as {
+        url: string;
+        events: OutboundEventType[];
+    };
+    if (config.api.platform !== 'dev' && !url.startsWith('https:')) {
+        throw new UnprocessableError('url must use https', 'insecure_url');
+    }
+    // Deliveries check again, this is to fail early
+    try {
+        await resolvePublicAddresses(new URL(url).hostname);
+    } catch (error) {
+        if (error instanceof PrivateAddressError) {
+            throw new UnprocessableError(
+                `url must not point to a private address: ${error.message}`,
+                'private_url',
+            );
+        }
+        throw new UnprocessableError(
+            'url host could not be resolved',
+            'unresolvable_url',
+        );
+    }
+    const subscription = await createWebhookSubscription({
+        userId,
+        url,
+        events: [...new Set(events)],
+        secret: crypto.randomBytes(32).toString('hex'),
+    });
+    res.status(201).json(subscription);
+}
+
+export async function handlerGetWebhookSubscriptions(
+    req: Request,
+    res: Response,
+) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const subscriptions = await getUserWebhookSubscriptions(userId);
+    res.status(200).json(
+        subscriptions.map(({ secret, ...subscription }) => subscription),
+    );
+}
+
+export async function handlerDeleteWebhookSubscription(
+    req: Request,
+    res: Response,
+) {
+    const subscription = await getOwnSubscription(req);
+    await deleteWebhookSubscription(subscription.id);
+    res.status(204).send();
+}
+
+// Newest first, each delivery with the status code or error of every attempt
+export async function handlerGetWebhookDeliveries(req: Request, res: Response) {
+    const subscription = await getOwnSubscription(req);
+    const pageParams = parsePageParams(req);
+    const page = buildPage(
+        await getSubscriptionDeliveries(subscription.id, pageParams),
+        pageParams,
+    );
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+// Other users' subscriptions are reported as missing, not forbidden, so
+// their ids cannot be probed
+async function getOwnSubscription(req: Request) {
+    const token = getBearerToken(req);
+    const userId = validateJWT(token, config.api.jwtSecret);
+    const subscription = await getWebhookSubscriptionById(req.params.id);
+    if (!subscription || subscription.userId !== userId) {
+        throw new NotFoundError('Webhook subscription not found');
+    }
+    return subscription;
+}
@@ -1,33 +1,129 @@
 import { Request, Response } from 'express';
-import { getUserById, upgradeUser } from '../db/queries/users.js';
-import { NotFoundError, UnauthorizedError } from './errors.js';
-import { getAPIKey } from './auth.js';
+import {
+    downgradeUser,
+    getUserById,
+    upgradeUser,
+} from '../db/queries/users.js';
+import {
+    countWebhookEventAttempt,
+    finishWebhookEvent,
+    getWebhookEventById,
+    getWebhookEvents,
+    recordWebhookEvent,
+    retryWebhookEvent,
+} from '../db/queries/webhookEvents.js';
 import { config } from '../config.js';
+import { type WebhookEvent, type WebhookEventStatus } from '../db/schema.js';
+import { NotFoundError } from './errors.js';
+import { buildPage, parsePageParams, setPageLinks } from './pagination.js';
+import { publishEvent } from '../outboundWebhooks.js';
 
-// Must be idempotent
-export async function handlerPolkaWebhook(req: Request, res: Response) {
-    const apiKey = getAPIKey(req);
-    if (apiKey !== config.api.polkaWebhookSecret) {
-        throw new UnauthorizedError('Invalid API key');
-    }
-    const { event, data } = req.body;
-    if (event !== 'user.upgraded') {
-        res.status(204).send();
-        return;
+type PolkaEvent = {
+    id: string;
+    event: string;
+    data: { userId: string };
+};
+
+// Every handler is idempotent, so replaying an event is always safe
+const polkaEventHandlers: Record<
+    string,
+    (userId: string) => Promise<{ isChirpyRed: boolean }>
+> = {
+    'user.upgraded': upgradeUser,
+    'user.downgraded': downgradeUser,
+    'subscription.expired': downgradeUser,
+};
+
+// Events we do not handle are acknowledged and ignored
+async function applyPolkaEvent(event: PolkaEvent): Promise<WebhookEventStatus> {
+    const handle = polkaEventHandlers[event.event];
+    if (!handle) {
+        return 'ignored';
     }
-    const userId = data.userId;
-    // Check if user exists
-    const user = await getUserById(userId);
+    const user = await getUserById(event.data.userId);
     if (!user) {
         throw new NotFoundError('User not found in database');
     }
-    // Check if user is already upgraded
-    if (user.isChirpyRed) {
+    const updated = await handle(user.id);
+    if (updated.isChirpyRed !== user.isChirpyRed) {
+        await publishEvent(
+            updated.isChirpyRed ? 'user.upgraded' : 'user.downgraded',
+            { userId: user.id, isChirpyRed: updated.isChirpyRed },
+            user.id,
+        );
+    }
+    return 'processed';
+}
+
+// Records the outcome on the event. Failures are rethrown so the response
+// tells Polka to redeliver.
+async function processWebhookEvent(record: WebhookEvent) {
+    try {
+        const status = await applyPolkaEvent(record.payload as PolkaEvent);
+        return await finishWebhookEvent(record.id, status);
+    } catch (error) {
+        await finishWebhookEvent(record.id, 'failed', (error as Error).message);
+        throw error;
+    }
+}
+
+// The signature is checked by middlewareRequirePolkaSignature. Redeliveries
+// of an event that was already handled are acknowledged without running it
+// again; failed ones are retried, and so are ones a crashed process left
+// unfinished.
+export async function handlerPolkaWebhook(req: Request, res: Response) {
+    const payload: PolkaEvent = req.body;
+    const record =
+        (await recordWebhookEvent({
+            eventId: payload.id,
+            event: payload.event,
+            payload,
+        })) ??
+        (await retryWebhookEvent(
+            payload.id,
+            new Date(Date.now() - config.polka.staleEventSeconds * 1000),
+        ));
+    if (!record) {
+        res.locals.logger?.info('duplicate webhook event', {
+            eventId: payload.id,
+        });
         res.status(204).send();
         return;
     }
-    // Upgrade user
-    await upgradeUser(userId);
-
+    await processWebhookEvent(record);
     res.status(204).send();
 }
+
+// Only admins reach the handlers below, see middlewareRequireRole in app.ts
+
+export async function handlerGetWebhookEvents(req: Request, res: Response) {
+    const status = req.query.status as WebhookEventStatus | undefined;
+    const pageParams = parsePageParams(req);
+    const page = buildPage(
+        await getWebhookEvents(status, pageParams),
+        pageParams,
+    );
+    setPageLinks(req, res, page);
+    res.status(200).json(page.items);
+}
+
+export async function handlerGetWebhookEvent(req: Request, res: Response) {
+    const event = await getWebhookEventById(req.params.id);
+    if (!event) {
+        throw new NotFoundError('Webhook event not found');
+    }
+    res.status(200).json(event);
+}
+
+// Runs a stored event again whatever its status, e.g. once a missing user
+// exists or after a bug fix
+export async function handlerReplayWebhookEvent(req: Request, res: Response) {
+    const event = await countWebhookEventAttempt(req.params.id);
+    if (!event) {
+        throw new NotFoundError('Webhook event not found');
+    }
+    res.locals.logger?.info('replaying webhook event', {
+        eventId: event.eventId,
+    });
+    res.status(200).json(await processWebhookEvent(event));
+}
@@ -0,0 +1,869 @@
+import express from 'express';
+import swaggerUiDir from 'swagger-ui-dist/absolute-path.js';
+import { config } from './config.js';
+import {
+    middlewareHttpMetrics,
+    middlewareLogResponses,
+    middlewareMetricsInc,
+    middlewareMetricsToken,
+    keepRawBody,
+    middlewareRateLimit,
+    middlewareUpload,
+    middlewareRequestId,
+    middlewareRequirePolkaSignature,
+    middlewareRequireRole,
+    middlewareValidate,
+} from './api/middlewares.js';
+import {
+    chirpIdParams,
+    chirpStreamQuery,
+    createChirpBody,
+    credentialsBody,
+    editChirpRequest,
+    emailVerificationBody,
+    followsRequest,
+    getChirpsQuery,
+    getReportsQuery,
+    getWebhookEventsQuery,
+    loginBody,
+    moderationRuleBody,
+    pageQuery,
+    passwordResetConfirmBody,
+    passwordResetRequestBody,
+    polkaWebhookBody,
+    publishChirpRequest,
+    reportChirpRequest,
+    reportIdParams,
+    ruleIdParams,
+    searchChirpsQuery,
+    sessionIdParams,
+    setUserRoleRequest,
+    timelineQuery,
+    unpublishedChirpsQuery,
+    updateModerationRuleRequest,
+    userIdParams,
+    webhookDeliveriesRequest,
+    webhookEventIdParams,
+    webhookSubscriptionBody,
+    webhookSubscriptionIdParams,
+} from './api/validation.js';
+import { handlerLiveness, handlerReadiness } from './api/readiness.js';
+import { handlerApiDocs, handlerOpenApiDocument } from './api/openapi.js';
+import {
+    handlerCreateChirp,
+    handlerGetAllChirps,
+    handlerGetChirpById,
+    handlerDeleteChirp,
+    handlerSearchChirps,
+    handlerGetTimeline,
+    handlerGetChirpThread,
+    handlerEditChirp,
+    handlerGetChirpRevisions,
+    handlerPublishChirp,
+    handlerGetDraftChirps,
+    handlerGetScheduledChirps,
+} from './api/chirps.js';
+import {
+    handlerMetrics,
+    handlerPrometheusMetrics,
+    handlerResetMetrics,
+} from './api/metrics.js';
+import { errorHandler } from './api/errorHandler.js';
+import {
+    handlerAddUser,
+    handlerSetUserRole,
+    handlerUpdateUser,
+} from './api/users.js';
+
+import { handlerLogin, handlerRefresh, handlerRevoke } from './api/auth.js';
+import {
+    handlerGetWebhookEvent,
+    handlerGetWebhookEvents,
+    handlerPolkaWebhook,
+    handlerReplayWebhookEvent,
+} from './api/webhooks.js';
+import { handlerGetLoginActivity } from './api/loginAttempts.js';
+import {
+    handlerConfirmEmailVerification,
+    handlerConfirmPasswordReset,
+    handlerRequestPasswordReset,
+    handlerResendEmailVerification,
+} from './api/userTokens.js';
+import {
+    handlerGetSessions,
+    handlerRevokeAllSessions,
+    handlerRevokeSession,
+} from './api/sessions.js';
+import { handlerLikeChirp, handlerUnlikeChirp } from './api/likes.js';
+import { handlerChirpStream } from './api/chirpStream.js';
+import { handlerUploadAttachment } from './api/attachments.js';
+import {
+    handlerCreateWebhookSubscription,
+    handlerDeleteWebhookSubscription,
+    handlerGetWebhookDeliveries,
+    handlerGetWebhookSubscriptions,
+} from './api/webhookSubscriptions.js';
+import {
+    handlerDeleteReportedChirp,
+    handlerDismissReport,
+    handlerGetReports,
+    handlerReportChirp,
+    handlerSuspendReportedAuthor,
+} from './api/reports.js';
+import {
+    handlerApproveChirp,
+    handlerCreateModerationRule,
+    handlerDeleteModerationRule,
+    handlerGetModerationQueue,
+    handlerGetModerationRules,
+    handlerRejectChirp,
+    handlerUpdateModerationRule,
+} from './api/moderation.js';
+import {
+    handlerFollowUser,
+    handlerGetFollowers,
+    handlerGetFollowing,
+    handlerUnfollowUser,
+} from './api/follows.js';
+
+// Routes only, the server is started by index.ts once the database is ready
+export const app = express();
+app.set('trust proxy', config.api.trustProxy);
+app.use(middlewareRequestId);
+app.use(middlewareHttpMetrics);
+app.use(express.json({ verify: keepRawBody }));
+app.use('/app', middlewareMetricsInc, express.static('./src/app'));
+// Uploads kept by the local disk storage. Their names are random and never
+// reused, so they can be cached for good.
+if (config.storage.publicUrl.startsWith('/')) {
+    app.use(
+        config.storage.publicUrl,
+        express.static(config.storage.dir, {
+            immutable: true,
+            maxAge: '365d',
+            index: false,
+            setHeaders: (res) => res.set('X-Content-Type-Options', 'nosniff'),
+        }),
+    );
+}
+
+app.use(middlewareLogResponses);
+
+app.get('/api/healthz', async (req, res, next) => {
+    try {
+        await handlerLiveness(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.get('/api/readyz', async (req, res, next) => {
+    try {
+        await handlerReadiness(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.get('/api/openapi.json', async (req, res, next) => {
+    try {
+        await handlerOpenApiDocument(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Swagger UI's scripts and styles for /api/docs, served from our own
+// dependency rather than a CDN
+app.use('/api/docs/assets', express.static(swaggerUiDir(), { index: false }));
+
+app.get('/api/docs', async (req, res, next) => {
+    try {
+        await handlerApiDocs(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.get('/metrics', middlewareMetricsToken, async (req, res, next) => {
+    try {
+        await handlerPrometheusMetrics(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.get(
+    '/admin/metrics',
+    middlewareRequireRole('admin'),
+    async (req, res, next) => {
+        try {
+            await handlerMetrics(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+app.post(
+    '/admin/reset',
+    middlewareRequireRole('admin'),
+    async (req, res, next) => {
+        try {
+            await handlerResetMetrics(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/admin/moderation/rules',
+    middlewareRequireRole('admin'),
+    async (req, res, next) => {
+        try {
+            await handlerGetModerationRules(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/moderation/rules',
+    middlewareRequireRole('admin'),
+    middlewareValidate(moderationRuleBody),
+    async (req, res, next) => {
+        try {
+            await handlerCreateModerationRule(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.put(
+    '/admin/moderation/rules/:ruleId',
+    middlewareRequireRole('admin'),
+    middlewareValidate(updateModerationRuleRequest),
+    async (req, res, next) => {
+        try {
+            await handlerUpdateModerationRule(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.delete(
+    '/admin/moderation/rules/:ruleId',
+    middlewareRequireRole('admin'),
+    middlewareValidate(ruleIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerDeleteModerationRule(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/admin/moderation/queue',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(pageQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetModerationQueue(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/moderation/queue/:chirpId/approve',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerApproveChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/moderation/queue/:chirpId/reject',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerRejectChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/admin/reports',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(getReportsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetReports(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/reports/:reportId/dismiss',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(reportIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerDismissReport(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/reports/:reportId/delete-chirp',
+    middlewareRequireRole('moderator'),
+    middlewareValidate(reportIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerDeleteReportedChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/reports/:reportId/suspend-author',
+    middlewareRequireRole('admin'),
+    middlewareValidate(reportIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerSuspendReportedAuthor(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.put(
+    '/admin/users/:id/role',
+    middlewareRequireRole('admin'),
+    middlewareValidate(setUserRoleRequest),
+    async (req, res, next) => {
+        try {
+            await handlerSetUserRole(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/admin/webhooks/events',
+    middlewareRequireRole('admin'),
+    middlewareValidate(getWebhookEventsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetWebhookEvents(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/admin/webhooks/events/:id',
+    middlewareRequireRole('admin'),
+    middlewareValidate(webhookEventIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerGetWebhookEvent(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/admin/webhooks/events/:id/replay',
+    middlewareRequireRole('admin'),
+    middlewareValidate(webhookEventIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerReplayWebhookEvent(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/users',
+    middlewareRateLimit('signup'),
+    middlewareValidate(credentialsBody),
+    async (req, res, next) => {
+        try {
+            await handlerAddUser(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.put(
+    '/api/users',
+    middlewareValidate(credentialsBody),
+    async (req, res, next) => {
+        try {
+            await handlerUpdateUser(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/users/:id/follow',
+    middlewareValidate(userIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerFollowUser(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.delete(
+    '/api/users/:id/follow',
+    middlewareValidate(userIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerUnfollowUser(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/users/:id/followers',
+    middlewareValidate(followsRequest),
+    async (req, res, next) => {
+        try {
+            await handlerGetFollowers(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/users/:id/following',
+    middlewareValidate(followsRequest),
+    async (req, res, next) => {
+        try {
+            await handlerGetFollowing(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/timeline',
+    middlewareValidate(timelineQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetTimeline(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/login',
+    middlewareRateLimit('login'),
+    middlewareValidate(loginBody),
+    async (req, res, next) => {
+        try {
+            await handlerLogin(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post('/api/refresh', async (req, res, next) => {
+    try {
+        await handlerRefresh(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.post('/api/revoke', async (req, res, next) => {
+    try {
+        await handlerRevoke(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.post(
+    '/api/password-reset/request',
+    middlewareRateLimit('passwordReset'),
+    middlewareValidate(passwordResetRequestBody),
+    async (req, res, next) => {
+        try {
+            await handlerRequestPasswordReset(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/password-reset/confirm',
+    middlewareValidate(passwordResetConfirmBody),
+    async (req, res, next) => {
+        try {
+            await handlerConfirmPasswordReset(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/email-verification/confirm',
+    middlewareValidate(emailVerificationBody),
+    async (req, res, next) => {
+        try {
+            await handlerConfirmEmailVerification(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post('/api/email-verification/resend', async (req, res, next) => {
+    try {
+        await handlerResendEmailVerification(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.get(
+    '/api/login-activity',
+    middlewareValidate(pageQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetLoginActivity(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get('/api/sessions', async (req, res, next) => {
+    try {
+        await handlerGetSessions(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.delete('/api/sessions', async (req, res, next) => {
+    try {
+        await handlerRevokeAllSessions(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.delete(
+    '/api/sessions/:id',
+    middlewareValidate(sessionIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerRevokeSession(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/chirps',
+    middlewareRateLimit('createChirp'),
+    middlewareValidate(createChirpBody),
+    async (req, res, next) => {
+        try {
+            await handlerCreateChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/attachments',
+    middlewareRateLimit('uploadAttachment'),
+    middlewareUpload('file'),
+    async (req, res, next) => {
+        try {
+            await handlerUploadAttachment(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/chirps',
+    middlewareValidate(getChirpsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetAllChirps(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+// Must be registered before /api/chirps/:chirpId. WebSocket upgrades to the
+// same path are handled by attachChirpStreamSocket.
+app.get(
+    '/api/chirps/stream',
+    middlewareValidate(chirpStreamQuery),
+    async (req, res, next) => {
+        try {
+            await handlerChirpStream(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+// Must be registered before /api/chirps/:chirpId
+app.get(
+    '/api/chirps/drafts',
+    middlewareValidate(unpublishedChirpsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetDraftChirps(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+// Must be registered before /api/chirps/:chirpId
+app.get(
+    '/api/chirps/scheduled',
+    middlewareValidate(unpublishedChirpsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerGetScheduledChirps(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+// Must be registered before /api/chirps/:chirpId
+app.get(
+    '/api/chirps/search',
+    middlewareValidate(searchChirpsQuery),
+    async (req, res, next) => {
+        try {
+            await handlerSearchChirps(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/chirps/:chirpId',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerGetChirpById(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/chirps/:chirpId/thread',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerGetChirpThread(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.patch(
+    '/api/chirps/:chirpId',
+    middlewareValidate(editChirpRequest),
+    async (req, res, next) => {
+        try {
+            await handlerEditChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/chirps/:chirpId/revisions',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerGetChirpRevisions(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/chirps/:chirpId/publish',
+    middlewareValidate(publishChirpRequest),
+    async (req, res, next) => {
+        try {
+            await handlerPublishChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.delete(
+    '/api/chirps/:chirpId',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerDeleteChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/chirps/:chirpId/like',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerLikeChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.delete(
+    '/api/chirps/:chirpId/like',
+    middlewareValidate(chirpIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerUnlikeChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/chirps/:chirpId/report',
+    middlewareValidate(reportChirpRequest),
+    async (req, res, next) => {
+        try {
+            await handlerReportChirp(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/webhooks',
+    middlewareValidate(webhookSubscriptionBody),
+    async (req, res, next) => {
+        try {
+            await handlerCreateWebhookSubscription(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get('/api/webhooks', async (req, res, next) => {
+    try {
+        await handlerGetWebhookSubscriptions(req, res);
+    } catch (error) {
+        next(error);
+    }
+});
+
+app.delete(
+    '/api/webhooks/:id',
+    middlewareValidate(webhookSubscriptionIdParams),
+    async (req, res, next) => {
+        try {
+            await handlerDeleteWebhookSubscription(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.get(
+    '/api/webhooks/:id/deliveries',
+    middlewareValidate(webhookDeliveriesRequest),
+    async (req, res, next) => {
+        try {
+            await handlerGetWebhookDeliveries(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+app.post(
+    '/api/polka/webhooks',
+    middlewareRequirePolkaSignature,
+    middlewareValidate(polkaWebhookBody),
+    async (req, res, next) => {
+        try {
+            await handlerPolkaWebhook(req, res);
+        } catch (error) {
+            next(error);
+        }
+    },
+);
+
+// Error handler must be last
+app.use(errorHandler);
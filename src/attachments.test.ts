@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { processImage, sniffImageType } from './attachments';
+import { UnprocessableError, UnsupportedMediaTypeError } from './api/errors';
+
+const options = {
+    maxBytes: 1024 * 1024,
+    maxPerChirp: 4,
+    maxPixels: 1_000_000,
+    thumbnailSize: 64,
+    orphanTtlSeconds: 60,
+    cleanupIntervalMs: 1000,
+};
+
+function image(width: number, height: number) {
+    return sharp({
+        create: {
+            width,
+            height,
+            channels: 3,
+            background: { r: 200, g: 40, b: 40 },
+        },
+    });
+}
+
+describe('Image Type Sniffing', () => {
+    it('should recognise images by their magic bytes', async () => {
+        const png = await image(4, 4).png().toBuffer();
+        const jpeg = await image(4, 4).jpeg().toBuffer();
+        const gif = await image(4, 4).gif().toBuffer();
+        const webp = await image(4, 4).webp().toBuffer();
+        expect([png, jpeg, gif, webp].map(sniffImageType)).toEqual([
+            'image/png',
+            'image/jpeg',
+            'image/gif',
+            'image/webp',
+        ]);
+    });
+
+    it('should reject anything else', () => {
+        expect(sniffImageType(Buffer.from('<svg></svg>'))).toBeUndefined();
+        expect(sniffImageType(Buffer.alloc(0))).toBeUndefined();
+    });
+});
+
+describe('Image Processing', () => {
+    it('should report dimensions and render a thumbnail that fits', async () => {
+        const png = await image(400, 200).png().toBuffer();
+        const result = await processImage(png, options);
+
+        expect(result).toMatchObject({
+            contentType: 'image/png',
+            width: 400,
+            height: 200,
+        });
+        const thumbnail = await sharp(result.thumbnail).metadata();
+        expect(thumbnail).toMatchObject({
+            format: 'webp',
+            width: 64,
+            height: 32,
+        });
+    });
+
+    it('should drop metadata and apply the EXIF orientation', async () => {
+        const jpeg = await image(40, 20)
+            .jpeg()
+            .withMetadata({ orientation: 6 })
+            .toBuffer();
+        const result = await processImage(jpeg, options);
+
+        const stored = await sharp(result.data).metadata();
+        expect(stored.exif).toBeUndefined();
+        expect(stored.orientation).toBeUndefined();
+        expect([result.width, result.height]).toEqual([20, 40]);
+    });
+
+    it('should refuse files that are not images', async () => {
+        await expect(
+            processImage(Buffer.from('hello'), options),
+        ).rejects.toBeInstanceOf(UnsupportedMediaTypeError);
+    });
+
+    it('should refuse broken and oversized images', async () => {
+        const png = await image(400, 200).png().toBuffer();
+        await expect(
+            processImage(png.subarray(0, 40), options),
+        ).rejects.toMatchObject({ code: 'invalid_image' });
+
+        const huge = await image(2000, 1000).png().toBuffer();
+        const error = await processImage(huge, options).catch((e) => e);
+        expect(error).toBeInstanceOf(UnprocessableError);
+        expect(error.code).toBe('image_too_large');
+    });
+});
@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import { config, type AttachmentConfig } from './config.js';
+import { logger } from './logger.js';
+import { storage } from './storage.js';
+import { UnprocessableError, UnsupportedMediaTypeError } from './api/errors.js';
+import { deleteOrphanedAttachments } from './db/queries/attachments.js';
+
+export const imageTypes = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+} as const;
+
+export type ImageType = keyof typeof imageTypes;
+
+export type ProcessedImage = {
+    contentType: ImageType;
+    data: Buffer;
+    width: number;
+    height: number;
+    // Always WebP
+    thumbnail: Buffer;
+};
+
+// The type is decided by the file's magic bytes; the client's Content-Type
+// and file name are ignored
+export function sniffImageType(data: Buffer): ImageType | undefined {
+    const ascii = (start: number, end: number) =>
+        data.subarray(start, end).toString('latin1');
+    if (
+        data.subarray(0, 8).equals(Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'))
+    ) {
+        return 'image/png';
+    }
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+        return 'image/gif';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    return undefined;
+}
+
+// Re-encodes the image in its own format, which drops metadata such as GPS
+// positions and applies the EXIF orientation, and renders the thumbnail.
+// Animated GIFs and WebPs stay animated; their thumbnail is the first frame.
+export async function processImage(
+    data: Buffer,
+    options: AttachmentConfig = config.attachments,
+): Promise<ProcessedImage> {
+    const contentType = sniffImageType(data);
+    if (!contentType) {
+        throw new UnsupportedMediaTypeError(
+            'Only PNG, JPEG, GIF and WebP images are accepted',
+            'unsupported_image_type',
+        );
+    }
+    const input = { limitInputPixels: options.maxPixels };
+    try {
+        const image = await sharp(data, { ...input, animated: true })
+            .rotate()
+            .toFormat(imageTypes[contentType])
+            .toBuffer({ resolveWithObject: true });
+        const thumbnail = await sharp(data, input)
+            .rotate()
+            .resize(options.thumbnailSize, options.thumbnailSize, {
+                fit: 'inside',
+                withoutEnlargement: true,
+            })
+            .webp()
+            .toBuffer();
+        return {
+            contentType,
+            data: image.data,
+            width: image.info.width,
+            // info.height covers every frame of an animation
+            height: image.info.pageHeight ?? image.info.height,
+            thumbnail,
+        };
+    } catch (error) {
+        if ((error as Error).message.includes('pixel limit')) {
+            throw new UnprocessableError(
+                `Images may have at most ${options.maxPixels} pixels`,
+                'image_too_large',
+            );
+        }
+        throw new UnprocessableError(
+            'Image could not be read',
+            'invalid_image',
+        );
+    }
+}
+
+// Files that cannot be removed are logged, their rows are gone already
+export async function removeAttachmentFiles(
+    removed: { storageKey: string; thumbnailKey: string }[],
+) {
+    const keys = removed.flatMap((a) => [a.storageKey, a.thumbnailKey]);
+    const results = await Promise.allSettled(
+        keys.map((key) => storage.delete(key)),
+    );
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            logger.error('removing attachment file failed', {
+                key: keys[i],
+                error: result.reason,
+            });
+        }
+    });
+}
+
+// Deletes orphaned uploads and their files until the returned function is
+// called
+export function startAttachmentCleanup(
+    options: AttachmentConfig = config.attachments,
+): () => void {
+    const timer = setInterval(() => {
+        const cutoff = new Date(Date.now() - options.orphanTtlSeconds * 1000);
+        deleteOrphanedAttachments(cutoff)
+            .then(removeAttachmentFiles)
+            .catch((error) => {
+                logger.error('attachment cleanup failed', { error });
+            });
+    }, options.cleanupIntervalMs);
+    return () => clearInterval(timer);
+}
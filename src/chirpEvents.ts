@@ -0,0 +1,34 @@
+import { chirpEventData, publishEvent } from './outboundWebhooks.js';
+import { publishChirpStreamEvent } from './chirpStream.js';
+import { type ChirpStatus, type ModerationStatus } from './db/schema.js';
+
+type AnnouncedChirp = Parameters<typeof chirpEventData>[0] & {
+    moderationStatus: ModerationStatus;
+    status: ChirpStatus;
+};
+
+// A chirp is announced to webhook subscribers and stream clients once it is
+// both approved and published, whichever happens last
+export function isAnnounced(chirp: AnnouncedChirp): boolean {
+    return (
+        chirp.moderationStatus === 'approved' && chirp.status === 'published'
+    );
+}
+
+export async function announceChirpCreated(chirp: AnnouncedChirp) {
+    if (!isAnnounced(chirp)) {
+        return;
+    }
+    const data = chirpEventData(chirp);
+    await publishEvent('chirp.created', data);
+    await publishChirpStreamEvent('chirp.created', chirp.userId, data);
+}
+
+export async function announceChirpDeleted(chirp: {
+    id: string;
+    userId: string;
+}) {
+    const data = { id: chirp.id, userId: chirp.userId };
+    await publishEvent('chirp.deleted', data);
+    await publishChirpStreamEvent('chirp.deleted', chirp.userId, data);
+}
@@ -0,0 +1,56 @@
+import { config, type ChirpSchedulerConfig } from './config.js';
+import { logger } from './logger.js';
+import { publishDueChirps } from './db/queries/chirps.js';
+import { announceChirpCreated } from './chirpEvents.js';
+
+// Publishes the scheduled chirps that are due and announces them. Returns
+// how many were published.
+export async function publishScheduledChirps(
+    options: ChirpSchedulerConfig = config.chirpScheduler,
+): Promise<number> {
+    const published = await publishDueChirps(options.batchSize);
+    for (const chirp of published) {
+        // Already published, so a failed announcement is not retried
+        try {
+            await announceChirpCreated(chirp);
+        } catch (error) {
+            logger.error('announcing scheduled chirp failed', {
+                chirpId: chirp.id,
+                error,
+            });
+        }
+    }
+    return published.length;
+}
+
+// Polls for due chirps until the returned function is called, which resolves
+// once the batch in flight is finished. Chirps that came due while the server
+// was down are published on the first poll.
+export function startChirpScheduler(
+    options: ChirpSchedulerConfig = config.chirpScheduler,
+): () => Promise<void> {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+    let running: Promise<void> = Promise.resolve();
+
+    const poll = () => {
+        running = publishScheduledChirps(options)
+            .then((count) => count === options.batchSize)
+            .catch((error) => {
+                logger.error('chirp scheduler failed', { error });
+                return false;
+            })
+            .then((more) => {
+                if (!stopped) {
+                    timer = setTimeout(poll, more ? 0 : options.pollIntervalMs);
+                }
+            });
+    };
+    poll();
+
+    return async () => {
+        stopped = true;
+        clearTimeout(timer);
+        await running;
+    };
+}
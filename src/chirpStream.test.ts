@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+    dispatchChirpStreamEvent,
+    subscribeChirpStream,
+    type ChirpStreamEvent,
+} from './chirpStream';
+
+const options = {
+    retentionSeconds: 60,
+    pruneIntervalMs: 1000,
+    heartbeatSeconds: 15,
+    replayBatchSize: 2,
+};
+
+const alice = '5f0c6b1e-8a3d-4c2b-9e7f-1a2b3c4d5e6f';
+const bob = '7d9e8f10-2b3c-4d5e-8f60-718293a4b5c6';
+
+function chirpEvent(id: number, authorId = alice): ChirpStreamEvent {
+    return {
+        id,
+        event: 'chirp.created',
+        authorId,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        data: { id: `chirp-${id}` },
+    };
+}
+
+// Stored events as getChirpStreamEventsAfter returns them
+function storedEvents(events: ChirpStreamEvent[]) {
+    return async (after: number, authorId: string | undefined, limit: number) =>
+        events
+            .filter(
+                (e) => e.id > after && (!authorId || e.authorId === authorId),
+            )
+            .slice(0, limit)
+            .map((e) => ({ ...e, createdAt: new Date(e.createdAt) }));
+}
+
+describe('Chirp Stream Subscriptions', () => {
+    it('should send live events matching the filter', async () => {
+        const received: number[] = [];
+        const unsubscribe = await subscribeChirpStream(
+            { authorId: alice },
+            undefined,
+            (event) => received.push(event.id),
+        );
+
+        dispatchChirpStreamEvent(chirpEvent(1));
+        dispatchChirpStreamEvent(chirpEvent(2, bob));
+        unsubscribe();
+        dispatchChirpStreamEvent(chirpEvent(3));
+
+        expect(received).toEqual([1]);
+    });
+
+    it('should replay stored events after lastEventId in batches', async () => {
+        const received: ChirpStreamEvent[] = [];
+        const unsubscribe = await subscribeChirpStream(
+            {},
+            1,
+            (event) => received.push(event),
+            storedEvents([1, 2, 3, 4, 5].map((id) => chirpEvent(id))),
+            options,
+        );
+        unsubscribe();
+
+        expect(received.map((event) => event.id)).toEqual([2, 3, 4, 5]);
+        expect(received[0]).toEqual(chirpEvent(2));
+    });
+
+    it('should send events published during the replay after it, once each', async () => {
+        const received: number[] = [];
+        const load = storedEvents([chirpEvent(2)]);
+        const unsubscribe = await subscribeChirpStream(
+            {},
+            1,
+            (event) => received.push(event.id),
+            async (after, authorId, limit) => {
+                // Event 2 is both stored and notified, event 3 only notified
+                dispatchChirpStreamEvent(chirpEvent(2));
+                dispatchChirpStreamEvent(chirpEvent(3));
+                return load(after, authorId, limit);
+            },
+            options,
+        );
+        dispatchChirpStreamEvent(chirpEvent(4));
+        unsubscribe();
+
+        expect(received).toEqual([2, 3, 4]);
+    });
+});
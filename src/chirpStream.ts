@@ -0,0 +1,152 @@
+import { config, type ChirpStreamConfig } from './config.js';
+import { logger } from './logger.js';
+import { listen } from './db/index.js';
+import {
+    CHIRP_STREAM_CHANNEL,
+    deleteChirpStreamEventsBefore,
+    getChirpStreamEventsAfter,
+    recordChirpStreamEvent,
+} from './db/queries/chirpStream.js';
+import { type ChirpStreamEventType } from './db/schema.js';
+
+// What stream clients receive. ids increase across all server instances.
+export type ChirpStreamEvent = {
+    id: number;
+    event: ChirpStreamEventType;
+    authorId: string;
+    createdAt: string;
+    data: unknown;
+};
+
+export type ChirpStreamFilter = {
+    authorId?: string;
+};
+
+type StoredEvent = Omit<ChirpStreamEvent, 'createdAt'> & {
+    createdAt: Date | string;
+};
+
+type Listener = (event: ChirpStreamEvent) => void;
+
+// Clients connected to this instance
+const listeners = new Set<Listener>();
+
+// Stores the event for resuming clients. Every instance, this one included,
+// hands it to its clients when the notification arrives.
+export async function publishChirpStreamEvent(
+    event: ChirpStreamEventType,
+    authorId: string,
+    data: unknown,
+): Promise<void> {
+    await recordChirpStreamEvent(event, authorId, data);
+}
+
+export function matchesChirpStreamFilter(
+    event: ChirpStreamEvent,
+    filter: ChirpStreamFilter,
+): boolean {
+    return !filter.authorId || event.authorId === filter.authorId;
+}
+
+export function dispatchChirpStreamEvent(event: ChirpStreamEvent) {
+    for (const listener of listeners) {
+        listener(event);
+    }
+}
+
+// Calls send with every matching event until the returned function is
+// called. With lastEventId the stored events after it are sent first; live
+// events arriving meanwhile are held back and sent after them, once each.
+export async function subscribeChirpStream(
+    filter: ChirpStreamFilter,
+    lastEventId: number | undefined,
+    send: (event: ChirpStreamEvent) => void,
+    loadEvents: typeof getChirpStreamEventsAfter = getChirpStreamEventsAfter,
+    options: ChirpStreamConfig = config.chirpStream,
+): Promise<() => void> {
+    let held: ChirpStreamEvent[] | undefined =
+        lastEventId === undefined ? undefined : [];
+    const listener: Listener = (event) => {
+        if (!matchesChirpStreamFilter(event, filter)) {
+            return;
+        }
+        if (held) {
+            held.push(event);
+        } else {
+            send(event);
+        }
+    };
+    listeners.add(listener);
+    const unsubscribe = () => {
+        listeners.delete(listener);
+    };
+    if (lastEventId === undefined) {
+        return unsubscribe;
+    }
+
+    try {
+        const replayed = new Set<number>();
+        let after = lastEventId;
+        let batch;
+        do {
+            batch = await loadEvents(
+                after,
+                filter.authorId,
+                options.replayBatchSize,
+            );
+            for (const row of batch) {
+                const event = toChirpStreamEvent(row);
+                replayed.add(event.id);
+                after = event.id;
+                send(event);
+            }
+        } while (batch.length === options.replayBatchSize);
+        for (const event of held!) {
+            if (!replayed.has(event.id)) {
+                send(event);
+            }
+        }
+        held = undefined;
+    } catch (error) {
+        unsubscribe();
+        throw error;
+    }
+    return unsubscribe;
+}
+
+// Listens for events published by any instance and prunes old ones until
+// the returned function is called
+export async function startChirpStream(
+    options: ChirpStreamConfig = config.chirpStream,
+): Promise<() => Promise<void>> {
+    const { unlisten } = await listen(CHIRP_STREAM_CHANNEL, (payload) => {
+        try {
+            dispatchChirpStreamEvent(toChirpStreamEvent(JSON.parse(payload)));
+        } catch (error) {
+            logger.error('chirp stream notification failed', { error });
+        }
+    });
+    const timer = setInterval(() => {
+        const cutoff = new Date(Date.now() - options.retentionSeconds * 1000);
+        deleteChirpStreamEventsBefore(cutoff).catch((error) => {
+            logger.error('chirp stream pruning failed', { error });
+        });
+    }, options.pruneIntervalMs);
+
+    return async () => {
+        clearInterval(timer);
+        await unlisten();
+    };
+}
+
+// Rows come from the database as Dates, notifications as JSON strings
+function toChirpStreamEvent(row: StoredEvent): ChirpStreamEvent {
+    const { id, event, authorId, createdAt, data } = row;
+    return {
+        id: Number(id),
+        event,
+        authorId,
+        createdAt: new Date(createdAt).toISOString(),
+        data,
+    };
+}
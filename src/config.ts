@@ -1,5 +1,6 @@
 import { loadEnvFile } from 'node:process';
 import type { MigrationConfig } from 'drizzle-orm/migrator';
+import type { LogLevel } from './logger.js';
 
 loadEnvFile();
 
@@ -19,17 +20,177 @@ export type DBConfig = {
 };
 
 export type APIConfig = {
-    fileServerHits: number;
     port: number;
     platform: string;
     jwtSecret: string;
-    polkaWebhookSecret: string;
+    // Existing account promoted to admin on startup, to bootstrap the first admin
+    adminEmail?: string;
+    // Number of reverse proxies in front of the server, so req.ip is the
+    // client address from X-Forwarded-For rather than the proxy's
+    trustProxy: number;
+    // Bearer token Prometheus scrapes /metrics with; /metrics is off without it
+    metricsToken?: string;
+};
+
+export type LogConfig = {
+    level: LogLevel;
+    // Field names masked in every log line
+    redact: string[];
+};
+
+// A token bucket holds up to `capacity` requests and refills continuously
+export type BucketPolicy = {
+    capacity: number;
+    refillPerMinute: number;
+};
+
+// Requests must pass every bucket the policy defines: one per client IP and
+// one per user (the authenticated user, or the client IP and the email being
+// logged into)
+export type RateLimitPolicy = {
+    ip?: BucketPolicy;
+    user?: BucketPolicy;
+};
+
+export type RateLimitConfig = {
+    // memory keeps buckets per process, postgres shares them across instances
+    store: 'memory' | 'postgres';
+    // How often idle buckets are deleted from the postgres store
+    cleanupIntervalMs: number;
+    policies: {
+        login: RateLimitPolicy;
+        signup: RateLimitPolicy;
+        passwordReset: RateLimitPolicy;
+        createChirp: RateLimitPolicy;
+        uploadAttachment: RateLimitPolicy;
+    };
+};
+
+// Failed logins beyond freeFailures must wait baseDelaySeconds, doubling with
+// each further failure. From lockAfter failures on, logins are refused for
+// lockoutMinutes after the last one.
+export type LockoutPolicy = {
+    freeFailures: number;
+    lockAfter: number;
+};
+
+export type LoginLockoutConfig = {
+    // Only failures this recent count
+    windowMinutes: number;
+    baseDelaySeconds: number;
+    lockoutMinutes: number;
+    // Per email, reset by a successful login
+    account: LockoutPolicy;
+    // Per client IP, across all emails
+    ip: LockoutPolicy;
+};
+
+export type MailConfig = {
+    from: string;
+    // Mail is sent over SMTP when set, otherwise it goes to the outbox
+    smtpUrl?: string;
+    // Outbox directory, mail is only logged when unset
+    outboxDir?: string;
+    // Base URL of the pages that handle links in mails, e.g. the reset form
+    appUrl: string;
+};
+
+export type StorageConfig = {
+    // Where the local disk storage keeps uploaded files
+    dir: string;
+    // URL files are served from. A path is served by this server from dir,
+    // a full URL points at a CDN or proxy in front of dir.
+    publicUrl: string;
+};
+
+export type AttachmentConfig = {
+    maxBytes: number;
+    maxPerChirp: number;
+    // Larger images are refused before being decoded
+    maxPixels: number;
+    // Thumbnails fit in a square of this many pixels
+    thumbnailSize: number;
+    // Uploads not attached to a chirp within this time are deleted
+    orphanTtlSeconds: number;
+    cleanupIntervalMs: number;
+};
+
+export type PolkaConfig = {
+    // Signatures made with any of these are accepted. During a rotation
+    // list the new secret first and drop the old one once Polka uses the new.
+    webhookSecrets: string[];
+    // Signed timestamps further than this from our clock are refused, so a
+    // captured request cannot be replayed later
+    signatureToleranceSeconds: number;
+    // A redelivered event still being processed after this long is taken to
+    // be abandoned, say by a crash, and processed again
+    staleEventSeconds: number;
+};
+
+// A failed delivery is retried after baseDelaySeconds, doubling with each
+// attempt up to maxDelaySeconds, and given up after maxAttempts
+export type OutboundWebhookConfig = {
+    maxAttempts: number;
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    // Requests slower than this count as failed
+    timeoutMs: number;
+    // How often the worker looks for due deliveries, and how many it sends
+    // at once
+    pollIntervalMs: number;
+    batchSize: number;
+};
+
+export type ChirpStreamConfig = {
+    // How long events stay available to clients resuming with Last-Event-ID
+    retentionSeconds: number;
+    pruneIntervalMs: number;
+    // Comments sent to idle connections so proxies do not close them
+    heartbeatSeconds: number;
+    // Events read per query when replaying to a resuming client
+    replayBatchSize: number;
+};
+
+export type ChirpSchedulerConfig = {
+    // How often due chirps are looked for, and how many are published at once
+    pollIntervalMs: number;
+    batchSize: number;
+};
+
+export type ModerationConfig = {
+    // Longer regex rules are refused when saved
+    maxPatternLength: number;
+    // Compiled rules are reused for this long, so rule changes made through
+    // another instance show up here within it
+    ruleCacheSeconds: number;
+};
+
+export type LifecycleConfig = {
+    // Readiness checks that take longer count as failed
+    readinessTimeoutMs: number;
+    // After SIGTERM or SIGINT, requests in flight get this long to finish
+    // before their connections are closed
+    drainTimeoutMs: number;
+    // Then running queries get this long before the pool is closed
+    dbCloseTimeoutSeconds: number;
 };
 
 // Main API configuration type
 export type Config = {
     api: APIConfig;
     db: DBConfig;
+    log: LogConfig;
+    rateLimit: RateLimitConfig;
+    loginLockout: LoginLockoutConfig;
+    mail: MailConfig;
+    storage: StorageConfig;
+    attachments: AttachmentConfig;
+    polka: PolkaConfig;
+    outboundWebhooks: OutboundWebhookConfig;
+    chirpStream: ChirpStreamConfig;
+    chirpScheduler: ChirpSchedulerConfig;
+    moderation: ModerationConfig;
+    lifecycle: LifecycleConfig;
 };
 
 // Migration configuration
@@ -37,17 +198,126 @@ const migrationConfig: MigrationConfig = {
     migrationsFolder: './src/db/migrations',
 };
 
+// Always redacted, LOG_REDACT adds to these
+const defaultRedactedFields = [
+    'authorization',
+    'cookie',
+    'password',
+    'hashedPassword',
+    'token',
+    'refreshToken',
+];
+
 // Main configuration object
 export const config: Config = {
     api: {
-        fileServerHits: 0,
         port: Number(envOrThrow('PORT')),
         platform: envOrThrow('PLATFORM'),
         jwtSecret: envOrThrow('JWT_SECRET'),
-        polkaWebhookSecret: envOrThrow('POLKA_KEY'),
+        adminEmail: process.env.ADMIN_EMAIL,
+        metricsToken: process.env.METRICS_TOKEN || undefined,
+        trustProxy: Number(process.env.TRUST_PROXY ?? 0),
     },
     db: {
         url: envOrThrow('DB_URL'),
         migrationConfig: migrationConfig,
     },
+    log: {
+        level: (process.env.LOG_LEVEL ?? 'info') as LogLevel,
+        redact: [
+            ...defaultRedactedFields,
+            ...(process.env.LOG_REDACT ?? '')
+                .split(',')
+                .map((field) => field.trim())
+                .filter(Boolean),
+        ],
+    },
+    rateLimit: {
+        store:
+            process.env.RATE_LIMIT_STORE === 'postgres' ? 'postgres' : 'memory',
+        cleanupIntervalMs: 10 * 60 * 1000,
+        policies: {
+            login: {
+                ip: { capacity: 20, refillPerMinute: 10 },
+                user: { capacity: 5, refillPerMinute: 1 },
+            },
+            signup: {
+                ip: { capacity: 5, refillPerMinute: 1 },
+            },
+            passwordReset: {
+                ip: { capacity: 5, refillPerMinute: 1 },
+                user: { capacity: 3, refillPerMinute: 0.2 },
+            },
+            createChirp: {
+                ip: { capacity: 60, refillPerMinute: 30 },
+                user: { capacity: 20, refillPerMinute: 10 },
+            },
+            uploadAttachment: {
+                ip: { capacity: 30, refillPerMinute: 10 },
+                user: { capacity: 10, refillPerMinute: 5 },
+            },
+        },
+    },
+    loginLockout: {
+        windowMinutes: 15,
+        baseDelaySeconds: 1,
+        lockoutMinutes: 15,
+        account: { freeFailures: 3, lockAfter: 10 },
+        ip: { freeFailures: 10, lockAfter: 50 },
+    },
+    mail: {
+        from: process.env.MAIL_FROM ?? 'Chirpy <no-reply@chirpy.local>',
+        smtpUrl: process.env.SMTP_URL,
+        outboxDir: process.env.MAIL_OUTBOX_DIR,
+        appUrl: process.env.APP_URL ?? 'http://localhost:8080/app',
+    },
+    storage: {
+        dir: process.env.STORAGE_DIR ?? './uploads',
+        publicUrl: process.env.MEDIA_URL ?? '/media',
+    },
+    attachments: {
+        maxBytes: 5 * 1024 * 1024,
+        maxPerChirp: 4,
+        maxPixels: 25_000_000,
+        thumbnailSize: 320,
+        orphanTtlSeconds: 24 * 60 * 60,
+        cleanupIntervalMs: 60 * 60 * 1000,
+    },
+    polka: {
+        webhookSecrets: (
+            process.env.POLKA_WEBHOOK_SECRETS ?? envOrThrow('POLKA_KEY')
+        )
+            .split(',')
+            .map((secret) => secret.trim())
+            .filter(Boolean),
+        signatureToleranceSeconds: 300,
+        staleEventSeconds: 60,
+    },
+    outboundWebhooks: {
+        maxAttempts: 8,
+        baseDelaySeconds: 30,
+        maxDelaySeconds: 60 * 60,
+        timeoutMs: 5000,
+        pollIntervalMs: 1000,
+        batchSize: 10,
+    },
+    chirpStream: {
+        retentionSeconds: 24 * 60 * 60,
+        pruneIntervalMs: 10 * 60 * 1000,
+        heartbeatSeconds: 15,
+        replayBatchSize: 500,
+    },
+    chirpScheduler: {
+        pollIntervalMs: 1000,
+        batchSize: 50,
+    },
+    moderation: {
+        maxPatternLength: 100,
+        ruleCacheSeconds: 60,
+    },
+    lifecycle: {
+        readinessTimeoutMs: 2000,
+        drainTimeoutMs: Number(process.env.SHUTDOWN_TIMEOUT_MS ?? 10_000),
+        dbCloseTimeoutSeconds: 5,
+    },
 };
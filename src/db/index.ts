@@ -3,7 +3,106 @@ import postgres from 'postgres';
 
 import * as schema from './schema.js';
 import { config } from '../config.js';
+import { dbQueryDuration } from '../metrics.js';
 
 // setup the connection
 const conn = postgres(config.db.url);
-export const db = drizzle(conn, { schema });
+export const db = drizzle(instrument(conn), { schema });
+
+// LISTEN is not part of drizzle. postgres-js runs it on a dedicated
+// connection and listens again after reconnecting.
+export function listen(channel: string, onNotify: (payload: string) => void) {
+    return conn.listen(channel, onNotify);
+}
+
+// Lets running queries finish for up to timeoutSeconds, then closes every
+// connection including the one used by listen()
+export function closeDb(timeoutSeconds: number) {
+    return conn.end({ timeout: timeoutSeconds });
+}
+
+// Records every query drizzle sends in dbQueryDuration. postgres-js queries
+// are lazy and only run once awaited, so the timer starts in then().
+// Transactions and savepoints hand out their own client, which is wrapped too.
+function instrument<T extends postgres.Sql>(sql: T): T {
+    return new Proxy(sql, {
+        get(target, prop, receiver) {
+            if (prop === 'unsafe') {
+                const unsafe: postgres.Sql['unsafe'] = (
+                    query,
+                    parameters,
+                    options,
+                ) => timed(query, target.unsafe(query, parameters, options));
+                return unsafe;
+            }
+            if (prop === 'begin') {
+                return scoped((name, callback) =>
+                    name === undefined
+                        ? target.begin(callback)
+                        : target.begin(name, callback),
+                );
+            }
+            if (prop === 'savepoint' && isTransaction(target)) {
+                return scoped((name, callback) =>
+                    name === undefined
+                        ? target.savepoint(callback)
+                        : target.savepoint(name, callback),
+                );
+            }
+            return Reflect.get(target, prop, receiver);
+        },
+    });
+}
+
+type TransactionCallback = (tx: postgres.TransactionSql) => unknown;
+
+// begin() and savepoint() take an optional name or options before the
+// callback, whose client gets instrumented
+function scoped(
+    run: (name: string | undefined, callback: TransactionCallback) => unknown,
+) {
+    return (...args: [TransactionCallback] | [string, TransactionCallback]) => {
+        const [name, body] = args.length === 1 ? [undefined, args[0]] : args;
+        return run(name, (tx) => body(instrument(tx)));
+    };
+}
+
+function isTransaction(sql: postgres.Sql): sql is postgres.TransactionSql {
+    return 'savepoint' in sql;
+}
+
+// A postgres-js PendingQuery, or the PendingValuesQuery its values() returns
+type PendingQuery = PromiseLike<unknown> & { values?(): PendingQuery };
+
+function timed<Q extends PendingQuery>(query: string, pending: Q): Q {
+    const operation = query.trimStart().split(/\s/, 1)[0].toLowerCase();
+    return new Proxy(pending, {
+        get(target, prop, receiver) {
+            if (prop === 'values' && target.values) {
+                const values = target.values;
+                return () => timed(query, values.call(target));
+            }
+            if (prop === 'then') {
+                return (
+                    onFulfilled?: (value: unknown) => unknown,
+                    onRejected?: (reason: unknown) => unknown,
+                ) => {
+                    const end = dbQueryDuration.startTimer({ operation });
+                    return target
+                        .then(
+                            (value) => {
+                                end();
+                                return value;
+                            },
+                            (error) => {
+                                end();
+                                throw error;
+                            },
+                        )
+                        .then(onFulfilled, onRejected);
+                };
+            }
+            return Reflect.get(target, prop, receiver);
+        },
+    });
+}
@@ -0,0 +1 @@
+CREATE INDEX "chirps_body_search_idx" ON "chirps" USING gin (to_tsvector('english', "body"));
\ No newline at end of file
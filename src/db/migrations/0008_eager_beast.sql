@@ -0,0 +1,9 @@
+CREATE TABLE "chirp_likes" (
+	"chirp_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chirp_likes_chirp_id_user_id_pk" PRIMARY KEY("chirp_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "chirp_likes" ADD CONSTRAINT "chirp_likes_chirp_id_chirps_id_fk" FOREIGN KEY ("chirp_id") REFERENCES "public"."chirps"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chirp_likes" ADD CONSTRAINT "chirp_likes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "chirps" ADD COLUMN "reply_to_id" uuid;--> statement-breakpoint
+ALTER TABLE "chirps" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "chirps" ADD CONSTRAINT "chirps_reply_to_id_chirps_id_fk" FOREIGN KEY ("reply_to_id") REFERENCES "public"."chirps"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "chirps_reply_to_id_idx" ON "chirps" USING btree ("reply_to_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "chirp_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chirp_id" uuid NOT NULL,
+	"body" varchar(140) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chirp_revisions" ADD CONSTRAINT "chirp_revisions_chirp_id_chirps_id_fk" FOREIGN KEY ("chirp_id") REFERENCES "public"."chirps"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "chirp_revisions_chirp_id_idx" ON "chirp_revisions" USING btree ("chirp_id");
\ No newline at end of file
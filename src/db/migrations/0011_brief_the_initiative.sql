@@ -0,0 +1,16 @@
+CREATE TYPE "public"."moderation_action" AS ENUM('mask', 'reject', 'hold');--> statement-breakpoint
+CREATE TYPE "public"."moderation_rule_kind" AS ENUM('word', 'regex');--> statement-breakpoint
+CREATE TYPE "public"."moderation_status" AS ENUM('approved', 'pending', 'rejected');--> statement-breakpoint
+CREATE TABLE "moderation_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"pattern" varchar(255) NOT NULL,
+	"kind" "moderation_rule_kind" DEFAULT 'word' NOT NULL,
+	"action" "moderation_action" DEFAULT 'mask' NOT NULL,
+	CONSTRAINT "moderation_rules_pattern_kind_unique" UNIQUE("pattern","kind")
+);
+--> statement-breakpoint
+ALTER TABLE "chirps" ADD COLUMN "moderation_status" "moderation_status" DEFAULT 'approved' NOT NULL;--> statement-breakpoint
+-- Seed the words the original hard-coded filter masked
+INSERT INTO "moderation_rules" ("pattern", "kind", "action") VALUES ('kerfuffle', 'word', 'mask'), ('sharbert', 'word', 'mask'), ('fornax', 'word', 'mask');
\ No newline at end of file
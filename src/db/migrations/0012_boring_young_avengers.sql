@@ -0,0 +1,19 @@
+CREATE TYPE "public"."report_reason" AS ENUM('spam', 'harassment', 'hate', 'misinformation', 'other');--> statement-breakpoint
+CREATE TYPE "public"."report_status" AS ENUM('open', 'dismissed', 'chirp_deleted', 'author_suspended');--> statement-breakpoint
+CREATE TABLE "reports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"chirp_id" uuid,
+	"reporter_id" uuid NOT NULL,
+	"reason" "report_reason" NOT NULL,
+	"details" varchar(500),
+	"status" "report_status" DEFAULT 'open' NOT NULL,
+	"resolved_at" timestamp,
+	CONSTRAINT "reports_chirp_id_reporter_id_unique" UNIQUE("chirp_id","reporter_id")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_chirp_id_chirps_id_fk" FOREIGN KEY ("chirp_id") REFERENCES "public"."chirps"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reports_status_idx" ON "reports" USING btree ("status");
\ No newline at end of file
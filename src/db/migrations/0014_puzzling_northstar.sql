@@ -0,0 +1,5 @@
+CREATE TABLE "rate_limit_buckets" (
+	"key" varchar(320) PRIMARY KEY NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
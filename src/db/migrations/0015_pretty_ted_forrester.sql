@@ -0,0 +1,11 @@
+ALTER TABLE "refresh_tokens" ADD COLUMN "token_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "family_id" uuid;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "user_agent" varchar(512);--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "rotated_at" timestamp;--> statement-breakpoint
+UPDATE "refresh_tokens" SET "token_hash" = encode(sha256(convert_to("token", 'UTF8')), 'hex'), "family_id" = gen_random_uuid();--> statement-breakpoint
+ALTER TABLE "refresh_tokens" DROP COLUMN "token";--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "token_hash" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD PRIMARY KEY ("token_hash");--> statement-breakpoint
+CREATE INDEX "refresh_tokens_user_id_idx" ON "refresh_tokens" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "refresh_tokens_family_id_idx" ON "refresh_tokens" USING btree ("family_id");
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."login_outcome" AS ENUM('success', 'invalid_credentials', 'locked_out', 'suspended');--> statement-breakpoint
+CREATE TABLE "login_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"user_id" uuid,
+	"ip" varchar(64),
+	"user_agent" varchar(512),
+	"outcome" "login_outcome" NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "login_attempts" ADD CONSTRAINT "login_attempts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "login_attempts_email_created_at_idx" ON "login_attempts" USING btree ("email","created_at");--> statement-breakpoint
+CREATE INDEX "login_attempts_ip_created_at_idx" ON "login_attempts" USING btree ("ip","created_at");--> statement-breakpoint
+CREATE INDEX "login_attempts_user_id_created_at_idx" ON "login_attempts" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."user_token_purpose" AS ENUM('password_reset', 'email_verification');--> statement-breakpoint
+CREATE TABLE "user_tokens" (
+	"token_hash" varchar(64) PRIMARY KEY NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"purpose" "user_token_purpose" NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_tokens" ADD CONSTRAINT "user_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_tokens_user_id_purpose_idx" ON "user_tokens" USING btree ("user_id","purpose");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."webhook_event_status" AS ENUM('received', 'processed', 'ignored', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"event_id" varchar(255) NOT NULL,
+	"event" varchar(255) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhook_event_status" DEFAULT 'received' NOT NULL,
+	"error" varchar(1024),
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"processed_at" timestamp,
+	CONSTRAINT "webhook_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "webhook_events_status_idx" ON "webhook_events" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TYPE "public"."chirp_stream_event_type" AS ENUM('chirp.created', 'chirp.deleted');--> statement-breakpoint
+CREATE TABLE "chirp_stream_events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"event" "chirp_stream_event_type" NOT NULL,
+	"author_id" uuid NOT NULL,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "chirp_stream_events_created_at_idx" ON "chirp_stream_events" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."chirp_status" AS ENUM('published', 'scheduled', 'draft');--> statement-breakpoint
+ALTER TABLE "chirps" ADD COLUMN "status" "chirp_status" DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chirps" ADD COLUMN "publish_at" timestamp;--> statement-breakpoint
+CREATE INDEX "chirps_scheduled_publish_at_idx" ON "chirps" USING btree ("publish_at") WHERE "chirps"."status" = 'scheduled';
\ No newline at end of file
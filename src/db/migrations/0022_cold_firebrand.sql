@@ -0,0 +1,18 @@
+CREATE TABLE "attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"chirp_id" uuid,
+	"position" integer,
+	"content_type" varchar(32) NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer NOT NULL,
+	"height" integer NOT NULL,
+	"storage_key" varchar(256) NOT NULL,
+	"thumbnail_key" varchar(256) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_chirp_id_chirps_id_fk" FOREIGN KEY ("chirp_id") REFERENCES "public"."chirps"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attachments_chirp_id_idx" ON "attachments" USING btree ("chirp_id");--> statement-breakpoint
+CREATE INDEX "attachments_orphan_created_at_idx" ON "attachments" USING btree ("created_at") WHERE "attachments"."chirp_id" is null;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "chirp_revisions" ALTER COLUMN "body" SET DATA TYPE varchar(500);--> statement-breakpoint
+ALTER TABLE "chirps" ALTER COLUMN "body" SET DATA TYPE varchar(500);
\ No newline at end of file
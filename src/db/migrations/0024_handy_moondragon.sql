@@ -0,0 +1 @@
+ALTER TABLE "webhook_events" ADD COLUMN "claimed_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
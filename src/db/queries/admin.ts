@@ -1,11 +1,31 @@
 import { db } from '../index.js';
-import { users, refreshTokens } from '../schema.js';
+import { attachments, users, refreshTokens } from '../schema.js';
 import { config } from '../../config.js';
 import { ForbiddenError } from '../../api/errors.js';
+import { eq } from 'drizzle-orm';
 
+// Returns the attachments that went with them, so their files can be
+// deleted too
 export async function deleteAllUsers() {
     if (config.api.platform !== 'dev') {
         throw new ForbiddenError('This action is only available in dev mode');
     }
-    await db.delete(users);
+    return db.transaction(async (tx) => {
+        const removed = await tx.delete(attachments).returning({
+            storageKey: attachments.storageKey,
+            thumbnailKey: attachments.thumbnailKey,
+        });
+        await tx.delete(users);
+        return removed;
+    });
+}
+
+// Promotes the account configured with ADMIN_EMAIL, see config.api.adminEmail
+export async function promoteBootstrapAdmin(email: string) {
+    const [result] = await db
+        .update(users)
+        .set({ role: 'admin' })
+        .where(eq(users.email, email))
+        .returning();
+    return result;
 }
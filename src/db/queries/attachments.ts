@@ -0,0 +1,50 @@
+import { and, isNull, lt } from 'drizzle-orm';
+import { db } from '../index.js';
+import { attachments, type Attachment, type NewAttachment } from '../schema.js';
+import { storage } from '../../storage.js';
+
+type StoredAttachment = Pick<
+    Attachment,
+    | 'id'
+    | 'contentType'
+    | 'size'
+    | 'width'
+    | 'height'
+    | 'storageKey'
+    | 'thumbnailKey'
+>;
+
+// What upload and chirp responses show of an attachment
+export function toAttachmentResponse(attachment: StoredAttachment) {
+    const { id, contentType, size, width, height } = attachment;
+    return {
+        id,
+        url: storage.url(attachment.storageKey),
+        thumbnailUrl: storage.url(attachment.thumbnailKey),
+        contentType,
+        size,
+        width,
+        height,
+    };
+}
+
+export async function createAttachment(attachment: NewAttachment) {
+    const [result] = await db
+        .insert(attachments)
+        .values(attachment)
+        .returning();
+    return result;
+}
+
+// Uploads never attached to a chirp, or whose chirp is gone
+export async function deleteOrphanedAttachments(createdBefore: Date) {
+    return db
+        .delete(attachments)
+        .where(
+            and(
+                isNull(attachments.chirpId),
+                lt(attachments.createdAt, createdBefore),
+            ),
+        )
+        .returning();
+}
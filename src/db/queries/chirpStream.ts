@@ -0,0 +1,49 @@
+import { and, asc, eq, gt, lt, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import { chirpStreamEvents, type ChirpStreamEventType } from '../schema.js';
+
+export const CHIRP_STREAM_CHANNEL = 'chirp_stream';
+
+// Stores the event and notifies every listening server in one transaction,
+// so listeners are only told about committed events
+export async function recordChirpStreamEvent(
+    event: ChirpStreamEventType,
+    authorId: string,
+    data: unknown,
+) {
+    return db.transaction(async (tx) => {
+        const [result] = await tx
+            .insert(chirpStreamEvents)
+            .values({ event, authorId, data })
+            .returning();
+        await tx.execute(
+            sql`select pg_notify(${CHIRP_STREAM_CHANNEL}, ${JSON.stringify(result)})`,
+        );
+        return result;
+    });
+}
+
+// Oldest first, optionally only one author's
+export async function getChirpStreamEventsAfter(
+    id: number,
+    authorId: string | undefined,
+    limit: number,
+) {
+    return db
+        .select()
+        .from(chirpStreamEvents)
+        .where(
+            and(
+                gt(chirpStreamEvents.id, id),
+                authorId ? eq(chirpStreamEvents.authorId, authorId) : undefined,
+            ),
+        )
+        .orderBy(asc(chirpStreamEvents.id))
+        .limit(limit);
+}
+
+export async function deleteChirpStreamEventsBefore(date: Date) {
+    await db
+        .delete(chirpStreamEvents)
+        .where(lt(chirpStreamEvents.createdAt, date));
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { ancestorsQuery } from './chirps';
+
+const parentId = '0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9';
+const viewerId = '6f1c2d3e-4f50-4617-8293-a4b5c6d7e8f9';
+
+// The queries are only built, not run, so no database is needed
+describe('Thread Ancestors', () => {
+    it('should leave out hidden ancestors for anonymous viewers', () => {
+        const { sql, params } = ancestorsQuery(parentId).toSQL();
+        expect(sql).toMatch(
+            /"chirps"\."status" = \$\d+ and "chirps"\."moderation_status" = \$\d+\)\) order by/,
+        );
+        expect(params).toEqual(
+            expect.arrayContaining([parentId, 'published', 'approved']),
+        );
+    });
+
+    it('should only show the viewer their own held ancestors', () => {
+        const { sql, params } = ancestorsQuery(parentId, viewerId).toSQL();
+        expect(sql).toMatch(
+            /"chirps"\."status" = \$\d+ and \("chirps"\."moderation_status" = \$\d+ or "chirps"\."user_id" = \$\d+\)\)\) order by/,
+        );
+        expect(params.slice(-3)).toEqual(['published', 'approved', viewerId]);
+    });
+});
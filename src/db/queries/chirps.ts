@@ -1,41 +1,503 @@
-import { and, asc, desc, eq } from 'drizzle-orm';
+import {
+    and,
+    asc,
+    desc,
+    eq,
+    getTableColumns,
+    gte,
+    inArray,
+    isNotNull,
+    isNull,
+    lt,
+    lte,
+    or,
+    sql,
+} from 'drizzle-orm';
 import { db } from '../index.js';
-import { chirps, type NewChirp } from '../schema.js';
+import {
+    attachments,
+    chirpRevisions,
+    chirps,
+    type ChirpStatus,
+    type ModerationStatus,
+    type NewChirp,
+    users,
+} from '../schema.js';
+import { type Cursor } from '../../api/pagination.js';
+import { keysetOrder, keysetPage, keysetSortKey } from './pagination.js';
+import { followeeIds } from './follows.js';
+import { toAttachmentResponse } from './attachments.js';
+import { UnprocessableError } from '../../api/errors.js';
 
-export async function createChirp(chirp: NewChirp) {
-    const [result] = await db.insert(chirps).values(chirp).returning();
+// Attaches the given uploads in order. They must be the author's own and not
+// attached yet, otherwise nothing is created.
+export async function createChirp(
+    chirp: NewChirp,
+    attachmentIds: string[] = [],
+) {
+    return db.transaction(async (tx) => {
+        const [result] = await tx.insert(chirps).values(chirp).returning();
+        if (attachmentIds.length === 0) {
+            return { ...result, attachments: [] };
+        }
+        const ids = sql`array[${sql.join(
+            attachmentIds.map((id) => sql`${id}`),
+            sql`, `,
+        )}]::uuid[]`;
+        const attached = await tx
+            .update(attachments)
+            .set({
+                chirpId: result.id,
+                position: sql`array_position(${ids}, ${attachments.id})`,
+            })
+            .where(
+                and(
+                    inArray(attachments.id, attachmentIds),
+                    eq(attachments.userId, result.userId),
+                    isNull(attachments.chirpId),
+                ),
+            )
+            .returning();
+        if (attached.length !== new Set(attachmentIds).size) {
+            throw new UnprocessableError(
+                'attachmentIds must be your own uploads not attached to another chirp',
+                'invalid_attachment',
+            );
+        }
+        attached.sort((a, b) => a.position! - b.position!);
+        return { ...result, attachments: attached.map(toAttachmentResponse) };
+    });
+}
+
+// Columns returned for every chirp read. Like counts are computed on read so
+// they stay correct when likes cascade away with their chirp or user, and
+// likedByMe is only true when the request is made by an authenticated viewer.
+// Drizzle renders selected columns unqualified, so the correlated subqueries
+// spell out table names to avoid binding "id" to the inner table.
+function chirpColumns(viewerId?: string) {
+    return {
+        ...getTableColumns(chirps),
+        likeCount: sql`(
+            select count(*) from chirp_likes
+            where chirp_likes.chirp_id = chirps.id
+        )`.mapWith(Number),
+        replyCount: sql`(
+            select count(*) from chirps as replies
+            where replies.reply_to_id = chirps.id
+            and replies.deleted_at is null
+            and replies.moderation_status = 'approved'
+            and replies.status = 'published'
+        )`.mapWith(Number),
+        likedByMe: viewerId
+            ? sql`exists(
+                select 1 from chirp_likes
+                where chirp_likes.chirp_id = chirps.id
+                and chirp_likes.user_id = ${viewerId}
+            )`.mapWith(Boolean)
+            : sql`false`.mapWith(Boolean),
+        edited: sql`exists(
+            select 1 from chirp_revisions
+            where chirp_revisions.chirp_id = chirps.id
+        )`.mapWith(Boolean),
+        attachments: sql`coalesce((
+            select json_agg(json_build_object(
+                'id', attachments.id,
+                'contentType', attachments.content_type,
+                'size', attachments.size,
+                'width', attachments.width,
+                'height', attachments.height,
+                'storageKey', attachments.storage_key,
+                'thumbnailKey', attachments.thumbnail_key
+            ) order by attachments.position)
+            from attachments
+            where attachments.chirp_id = chirps.id
+        ), '[]')`.mapWith(
+            (rows: Parameters<typeof toAttachmentResponse>[0][]) =>
+                rows.map(toAttachmentResponse),
+        ),
+    };
+}
+
+// Chirps waiting for or refused by moderation are only shown to their author.
+// Drafts and scheduled chirps are not shown at all; their author finds them
+// through getChirpById and the status lists of getAllChirps.
+function visibleTo(viewerId?: string) {
+    const approved = eq(chirps.moderationStatus, 'approved');
+    return and(
+        eq(chirps.status, 'published'),
+        viewerId ? or(approved, eq(chirps.userId, viewerId)) : approved,
+    );
+}
+
+export type ChirpQuery = {
+    viewerId?: string;
+    // Only chirps in this moderation state, regardless of viewer (admin queue)
+    moderationStatus?: ModerationStatus;
+    // Only unpublished chirps in this state, regardless of viewer; combined
+    // with authorId for the author's own drafts or scheduled chirps
+    status?: Exclude<ChirpStatus, 'published'>;
+    authorId?: string;
+    // Only chirps by accounts this user follows (home timeline)
+    followedBy?: string;
+    sort?: string;
+    since?: Date;
+    until?: Date;
+    after?: Cursor;
+    before?: Cursor;
+    limit: number;
+};
+
+export function chirpOrder(descending: boolean) {
+    return keysetOrder(chirps.createdAt, chirps.id, descending);
+}
+
+// Returns up to limit + 1 rows in fetch order; paging backwards (before)
+// walks the feed in reverse, see buildPage.
+export async function getAllChirps(query: ChirpQuery) {
+    const page = keysetPage(
+        chirps.createdAt,
+        chirps.id,
+        query,
+        query.sort === 'desc' ? 'desc' : 'asc',
+    );
+    const result = await db
+        .select(chirpColumns(query.viewerId))
+        .from(chirps)
+        .where(
+            and(
+                isNull(chirps.deletedAt),
+                query.moderationStatus
+                    ? eq(chirps.moderationStatus, query.moderationStatus)
+                    : undefined,
+                query.status ? eq(chirps.status, query.status) : undefined,
+                query.moderationStatus || query.status
+                    ? undefined
+                    : visibleTo(query.viewerId),
+                query.authorId ? eq(chirps.userId, query.authorId) : undefined,
+                query.followedBy
+                    ? inArray(chirps.userId, followeeIds(query.followedBy))
+                    : undefined,
+                query.since ? gte(chirps.createdAt, query.since) : undefined,
+                query.until ? lt(chirps.createdAt, query.until) : undefined,
+                page.where,
+            ),
+        )
+        .orderBy(...page.orderBy)
+        .limit(query.limit + 1);
     return result;
 }
 
-export async function getAllChirps(authorId?: string, sort?: string) {
-    if (sort === 'desc') {
-        const result = await db
-            .select()
-            .from(chirps)
-            .where(authorId ? eq(chirps.userId, authorId) : undefined)
-            .orderBy(desc(chirps.createdAt));
-        return result;
-    } else {
-        const result = await db
-            .select()
-            .from(chirps)
-            .where(authorId ? eq(chirps.userId, authorId) : undefined)
-            .orderBy(asc(chirps.createdAt));
-        return result;
+export type ChirpSearchQuery = {
+    q: string;
+    viewerId?: string;
+    authorId?: string;
+    after?: Cursor;
+    before?: Cursor;
+    limit: number;
+};
+
+// Must match the chirps_body_search_idx expression so the GIN index is used
+const chirpSearchDocument = sql`to_tsvector('english', ${chirps.body})`;
+
+// Results are ordered by rank, best match first, then newest first. Like
+// getAllChirps this returns up to limit + 1 rows in fetch order.
+export async function searchChirps(query: ChirpSearchQuery) {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+    const rank = sql`ts_rank(${chirpSearchDocument}, ${tsQuery})`;
+    const reverse = query.before !== undefined;
+    const cursor = query.after ?? query.before;
+
+    let keyset;
+    if (cursor) {
+        const cursorKey = sql`(${cursor.rank ?? 0}::real, ${cursor.createdAt.toISOString()}::timestamp, ${cursor.id}::uuid)`;
+        const rowKey = sql`(${rank}, ${keysetSortKey(chirps.createdAt)}, ${chirps.id})`;
+        keyset = reverse
+            ? sql`${rowKey} > ${cursorKey}`
+            : sql`${rowKey} < ${cursorKey}`;
     }
+
+    const result = await db
+        .select({
+            ...chirpColumns(query.viewerId),
+            rank: rank.mapWith(Number),
+        })
+        .from(chirps)
+        .where(
+            and(
+                isNull(chirps.deletedAt),
+                visibleTo(query.viewerId),
+                sql`${chirpSearchDocument} @@ ${tsQuery}`,
+                query.authorId ? eq(chirps.userId, query.authorId) : undefined,
+                keyset,
+            ),
+        )
+        .orderBy(reverse ? asc(rank) : desc(rank), ...chirpOrder(!reverse))
+        .limit(query.limit + 1);
+    return result;
 }
 
-export async function getChirpById(chirpId: string) {
+// Tombstones (deleted chirps kept for their replies) are not returned.
+// Authors see all of their own chirps, published or not.
+export async function getChirpById(chirpId: string, viewerId?: string) {
     const [result] = await db
-        .select()
+        .select(chirpColumns(viewerId))
         .from(chirps)
-        .where(eq(chirps.id, chirpId));
+        .where(
+            and(
+                eq(chirps.id, chirpId),
+                isNull(chirps.deletedAt),
+                viewerId
+                    ? or(visibleTo(viewerId), eq(chirps.userId, viewerId))
+                    : visibleTo(),
+            ),
+        );
     return result;
 }
 
-export async function deleteChirp(chirpId: string, userId: string) {
+export const MAX_THREAD_REPLIES = 500;
+
+// Returns the chirp (possibly a tombstone), its ancestors from the root
+// down, and up to MAX_THREAD_REPLIES descendants, oldest first. Replies are
+// always newer than their parent, so every descendant's parent precedes it.
+export async function getChirpThread(chirpId: string, viewerId?: string) {
+    const [chirp] = await db
+        .select(chirpColumns(viewerId))
+        .from(chirps)
+        .where(and(eq(chirps.id, chirpId), visibleTo(viewerId)));
+    if (!chirp) {
+        return undefined;
+    }
+
+    const descendantIds = sql`(
+        with recursive descendants(id) as (
+            select id from chirps where reply_to_id = ${chirpId}
+            union all
+            select c.id from chirps c
+            join descendants d on c.reply_to_id = d.id
+        )
+        select id from descendants
+    )`;
+
+    const ancestors = chirp.replyToId
+        ? await ancestorsQuery(chirp.replyToId, viewerId)
+        : [];
+    const descendants = await db
+        .select(chirpColumns(viewerId))
+        .from(chirps)
+        .where(and(inArray(chirps.id, descendantIds), visibleTo(viewerId)))
+        .orderBy(...chirpOrder(false))
+        .limit(MAX_THREAD_REPLIES);
+    return { chirp, ancestors, descendants };
+}
+
+// The chirp replyToId and everything it replies to, root first. Ancestors
+// the viewer may not see, such as held or rejected chirps, are left out.
+export function ancestorsQuery(replyToId: string, viewerId?: string) {
+    const ancestorIds = sql`(
+        with recursive ancestors(id, reply_to_id) as (
+            select id, reply_to_id from chirps where id = ${replyToId}
+            union all
+            select c.id, c.reply_to_id from chirps c
+            join ancestors a on c.id = a.reply_to_id
+        )
+        select id from ancestors
+    )`;
+    return db
+        .select(chirpColumns(viewerId))
+        .from(chirps)
+        .where(and(inArray(chirps.id, ancestorIds), visibleTo(viewerId)))
+        .orderBy(...chirpOrder(false));
+}
+
+// Stores the current body as a revision and replaces it, along with the
+// moderation verdict for the new body. An edit can hold an approved chirp
+// but never approves one: held chirps stay in the queue and rejected ones
+// stay rejected. Returns false when the chirp does not exist, belongs to
+// someone else or is a tombstone.
+export async function editChirp(
+    chirpId: string,
+    userId: string,
+    body: string,
+    moderationStatus: ModerationStatus,
+) {
+    return db.transaction(async (tx) => {
+        const [chirp] = await tx
+            .select({
+                body: chirps.body,
+                moderationStatus: chirps.moderationStatus,
+            })
+            .from(chirps)
+            .where(
+                and(
+                    eq(chirps.id, chirpId),
+                    eq(chirps.userId, userId),
+                    isNull(chirps.deletedAt),
+                ),
+            )
+            .for('update');
+        if (!chirp) {
+            return false;
+        }
+        if (chirp.body === body) {
+            return true;
+        }
+        await tx.insert(chirpRevisions).values({ chirpId, body: chirp.body });
+        await tx
+            .update(chirps)
+            .set({
+                body,
+                moderationStatus:
+                    chirp.moderationStatus === 'approved'
+                        ? moderationStatus
+                        : chirp.moderationStatus,
+            })
+            .where(eq(chirps.id, chirpId));
+        return true;
+    });
+}
+
+export async function getChirpRevisions(chirpId: string) {
     const result = await db
-        .delete(chirps)
-        .where(and(eq(chirps.id, chirpId), eq(chirps.userId, userId)));
+        .select({
+            id: chirpRevisions.id,
+            body: chirpRevisions.body,
+            createdAt: chirpRevisions.createdAt,
+        })
+        .from(chirpRevisions)
+        .where(eq(chirpRevisions.chirpId, chirpId))
+        .orderBy(asc(chirpRevisions.createdAt), asc(chirpRevisions.id));
     return result;
 }
+
+// Moves a held chirp out of the review queue. Returns undefined when the
+// chirp is not pending review.
+export async function resolveHeldChirp(
+    chirpId: string,
+    moderationStatus: 'approved' | 'rejected',
+) {
+    const [result] = await db
+        .update(chirps)
+        .set({ moderationStatus })
+        .where(
+            and(eq(chirps.id, chirpId), eq(chirps.moderationStatus, 'pending')),
+        )
+        .returning();
+    return result;
+}
+
+// Publishes one of the author's drafts or scheduled chirps now, or schedules
+// it for publishAt. createdAt becomes the publication time, so the chirp
+// lands at the top of feeds. Returns undefined when the chirp is not an
+// unpublished chirp of this author.
+export async function publishChirp(
+    chirpId: string,
+    userId: string,
+    publishAt?: Date,
+) {
+    const [result] = await db
+        .update(chirps)
+        .set(
+            publishAt
+                ? { status: 'scheduled', publishAt }
+                : {
+                      status: 'published',
+                      publishAt: null,
+                      createdAt: new Date(),
+                  },
+        )
+        .where(
+            and(
+                eq(chirps.id, chirpId),
+                eq(chirps.userId, userId),
+                isNull(chirps.deletedAt),
+                inArray(chirps.status, ['draft', 'scheduled']),
+            ),
+        )
+        .returning();
+    return result;
+}
+
+// Publishes up to `limit` scheduled chirps whose time has come, oldest
+// publishAt first, and returns them. A single UPDATE both claims and
+// publishes, so every chirp is returned exactly once however many servers
+// run the scheduler or how often they restart. Chirps of suspended authors
+// are skipped and stay scheduled.
+export async function publishDueChirps(limit: number) {
+    const due = db
+        .select({ id: chirps.id })
+        .from(chirps)
+        .innerJoin(users, eq(users.id, chirps.userId))
+        .where(
+            and(
+                eq(chirps.status, 'scheduled'),
+                lte(chirps.publishAt, new Date()),
+                isNull(users.suspendedAt),
+            ),
+        )
+        .orderBy(asc(chirps.publishAt))
+        .limit(limit)
+        .for('update', { of: chirps, skipLocked: true });
+    return db
+        .update(chirps)
+        .set({ status: 'published', createdAt: sql`${chirps.publishAt}` })
+        .where(and(inArray(chirps.id, due), eq(chirps.status, 'scheduled')))
+        .returning();
+}
+
+// Chirps with replies are turned into tombstones so the conversation stays
+// intact; anything else is removed, along with any tombstoned ancestors
+// that no longer have replies of their own. Either way the chirp's
+// attachments are removed and returned, so their files can be deleted once
+// this has committed.
+export async function deleteChirp(chirpId: string, userId: string) {
+    return db.transaction(async (tx) => {
+        const [chirp] = await tx
+            .select({ id: chirps.id, replyToId: chirps.replyToId })
+            .from(chirps)
+            .where(and(eq(chirps.id, chirpId), eq(chirps.userId, userId)));
+        if (!chirp) {
+            return [];
+        }
+        const removed = await tx
+            .delete(attachments)
+            .where(eq(attachments.chirpId, chirp.id))
+            .returning({
+                storageKey: attachments.storageKey,
+                thumbnailKey: attachments.thumbnailKey,
+            });
+        if (await hasReplies(tx, chirp.id)) {
+            await tx
+                .update(chirps)
+                .set({ body: '', deletedAt: new Date() })
+                .where(eq(chirps.id, chirp.id));
+            await tx
+                .delete(chirpRevisions)
+                .where(eq(chirpRevisions.chirpId, chirp.id));
+            return removed;
+        }
+        await tx.delete(chirps).where(eq(chirps.id, chirp.id));
+
+        let parentId = chirp.replyToId;
+        while (parentId && !(await hasReplies(tx, parentId))) {
+            const [parent] = await tx
+                .delete(chirps)
+                .where(
+                    and(eq(chirps.id, parentId), isNotNull(chirps.deletedAt)),
+                )
+                .returning({ replyToId: chirps.replyToId });
+            parentId = parent?.replyToId ?? null;
+        }
+        return removed;
+    });
+}
+
+async function hasReplies(tx: Transaction, chirpId: string) {
+    const [reply] = await tx
+        .select({ id: chirps.id })
+        .from(chirps)
+        .where(eq(chirps.replyToId, chirpId))
+        .limit(1);
+    return reply !== undefined;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,59 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { follows, type NewFollow } from '../schema.js';
+import { type PageParams } from '../../api/pagination.js';
+import { keysetPage } from './pagination.js';
+
+export async function followUser(follow: NewFollow) {
+    await db.insert(follows).values(follow).onConflictDoNothing();
+}
+
+export async function unfollowUser(followerId: string, followeeId: string) {
+    await db
+        .delete(follows)
+        .where(
+            and(
+                eq(follows.followerId, followerId),
+                eq(follows.followeeId, followeeId),
+            ),
+        );
+}
+
+// Subquery of the ids a user follows, used to build the home timeline
+export function followeeIds(followerId: string) {
+    return db
+        .select({ id: follows.followeeId })
+        .from(follows)
+        .where(eq(follows.followerId, followerId));
+}
+
+export async function getFollowers(userId: string, params: PageParams) {
+    return listFollows('followers', userId, params);
+}
+
+export async function getFollowing(userId: string, params: PageParams) {
+    return listFollows('following', userId, params);
+}
+
+// Follow listings are ordered newest follow first. Rows are returned as
+// { id, createdAt } of the other user and the follow so they can be paged
+// with buildPage; like getAllChirps this returns up to limit + 1 rows.
+async function listFollows(
+    direction: 'followers' | 'following',
+    userId: string,
+    params: PageParams,
+) {
+    const [ownColumn, otherColumn] =
+        direction === 'followers'
+            ? [follows.followeeId, follows.followerId]
+            : [follows.followerId, follows.followeeId];
+    const page = keysetPage(follows.createdAt, otherColumn, params);
+
+    const result = await db
+        .select({ id: otherColumn, createdAt: follows.createdAt })
+        .from(follows)
+        .where(and(eq(ownColumn, userId), page.where))
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1);
+    return result;
+}
@@ -0,0 +1,20 @@
+import { sql } from 'drizzle-orm';
+import type { MigrationConfig } from 'drizzle-orm/migrator';
+import { db } from '../index.js';
+
+export async function pingDatabase() {
+    await db.execute(sql`select 1`);
+}
+
+// The journal time of the newest migration drizzle's migrator has applied,
+// from the table it keeps its bookkeeping in
+export async function getLatestAppliedMigration(
+    migrationConfig: MigrationConfig,
+): Promise<number | undefined> {
+    const schema = migrationConfig.migrationsSchema ?? 'drizzle';
+    const table = migrationConfig.migrationsTable ?? '__drizzle_migrations';
+    const rows = await db.execute<{ created_at: string }>(
+        sql`select created_at from ${sql.identifier(schema)}.${sql.identifier(table)} order by created_at desc limit 1`,
+    );
+    return rows.length > 0 ? Number(rows[0].created_at) : undefined;
+}
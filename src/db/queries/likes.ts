@@ -0,0 +1,15 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { chirpLikes, type NewChirpLike } from '../schema.js';
+
+export async function likeChirp(like: NewChirpLike) {
+    await db.insert(chirpLikes).values(like).onConflictDoNothing();
+}
+
+export async function unlikeChirp(chirpId: string, userId: string) {
+    await db
+        .delete(chirpLikes)
+        .where(
+            and(eq(chirpLikes.chirpId, chirpId), eq(chirpLikes.userId, userId)),
+        );
+}
@@ -0,0 +1,67 @@
+import { and, count, eq, gt, max, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import { loginAttempts, type NewLoginAttempt } from '../schema.js';
+import { type PageParams } from '../../api/pagination.js';
+import { keysetPage } from './pagination.js';
+
+export async function recordLoginAttempt(attempt: NewLoginAttempt) {
+    await db.insert(loginAttempts).values(attempt);
+}
+
+// Failed attempts for an email since `since`, ignoring those before the last
+// successful login
+export async function getAccountFailures(email: string, since: Date) {
+    const lastSuccess = sql`(
+        select max(success.created_at) from login_attempts as success
+        where success.email = ${email} and success.outcome = 'success'
+    )`;
+    return getFailures(
+        and(
+            eq(loginAttempts.email, email),
+            sql`${loginAttempts.createdAt} > coalesce(${lastSuccess}, '-infinity')`,
+        ),
+        since,
+    );
+}
+
+export async function getIpFailures(ip: string, since: Date) {
+    return getFailures(eq(loginAttempts.ip, ip), since);
+}
+
+async function getFailures(
+    filter: ReturnType<typeof and>,
+    since: Date,
+): Promise<{ count: number; lastAt: Date | null }> {
+    const [result] = await db
+        .select({
+            count: count(),
+            lastAt: max(loginAttempts.createdAt),
+        })
+        .from(loginAttempts)
+        .where(
+            and(
+                filter,
+                eq(loginAttempts.outcome, 'invalid_credentials'),
+                gt(loginAttempts.createdAt, since),
+            ),
+        );
+    return result;
+}
+
+// Newest first, up to limit + 1 rows for buildPage
+export async function getUserLoginAttempts(userId: string, params: PageParams) {
+    const page = keysetPage(loginAttempts.createdAt, loginAttempts.id, params);
+
+    return db
+        .select({
+            id: loginAttempts.id,
+            createdAt: loginAttempts.createdAt,
+            outcome: loginAttempts.outcome,
+            ip: loginAttempts.ip,
+            userAgent: loginAttempts.userAgent,
+        })
+        .from(loginAttempts)
+        .where(and(eq(loginAttempts.userId, userId), page.where))
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1);
+}
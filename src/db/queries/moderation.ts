@@ -0,0 +1,41 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { moderationRules, type NewModerationRule } from '../schema.js';
+
+export async function getModerationRules() {
+    const result = await db
+        .select()
+        .from(moderationRules)
+        .orderBy(asc(moderationRules.createdAt));
+    return result;
+}
+
+// Returns undefined when the same pattern and kind already exist
+export async function createModerationRule(rule: NewModerationRule) {
+    const [result] = await db
+        .insert(moderationRules)
+        .values(rule)
+        .onConflictDoNothing()
+        .returning();
+    return result;
+}
+
+export async function updateModerationRule(
+    ruleId: string,
+    rule: Partial<NewModerationRule>,
+) {
+    const [result] = await db
+        .update(moderationRules)
+        .set(rule)
+        .where(eq(moderationRules.id, ruleId))
+        .returning();
+    return result;
+}
+
+export async function deleteModerationRule(ruleId: string) {
+    const [result] = await db
+        .delete(moderationRules)
+        .where(eq(moderationRules.id, ruleId))
+        .returning();
+    return result;
+}
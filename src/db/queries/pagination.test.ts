@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { keysetPage } from './pagination';
+import { db } from '../index';
+import { reports } from '../schema';
+import { type PageParams } from '../../api/pagination';
+
+const cursor = {
+    createdAt: new Date('2026-01-02T03:04:05.678Z'),
+    id: '0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9',
+};
+
+function pageSQL(params: PageParams, order?: 'asc' | 'desc') {
+    const page = keysetPage(reports.createdAt, reports.id, params, order);
+    return db
+        .select()
+        .from(reports)
+        .where(page.where)
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1)
+        .toSQL();
+}
+
+const sortKey = `date_trunc\\('milliseconds', "reports"\\."created_at"\\)`;
+const rowKey = `\\(${sortKey}, "reports"\\."id"\\)`;
+const cursorKey = `\\(\\$1::timestamp, \\$2::uuid\\)`;
+
+// The queries are only built, not run, so no database is needed
+describe('Keyset Pages', () => {
+    it('should start newest first without a cursor', () => {
+        const { sql } = pageSQL({ limit: 20 });
+        expect(sql).not.toMatch(/ where /);
+        expect(sql).toMatch(
+            new RegExp(`order by ${sortKey} desc, "reports"\\."id" desc`),
+        );
+    });
+
+    it('should continue after the cursor', () => {
+        const { sql, params } = pageSQL({ limit: 20, after: cursor });
+        expect(sql).toMatch(new RegExp(`where ${rowKey} < ${cursorKey}`));
+        expect(params).toEqual([cursor.createdAt.toISOString(), cursor.id, 21]);
+    });
+
+    it('should walk backwards before the cursor', () => {
+        const { sql } = pageSQL({ limit: 20, before: cursor });
+        expect(sql).toMatch(new RegExp(`where ${rowKey} > ${cursorKey}`));
+        expect(sql).toMatch(/"reports"\."id" asc/);
+    });
+
+    it('should flip both directions for oldest first feeds', () => {
+        expect(pageSQL({ limit: 20, after: cursor }, 'asc').sql).toMatch(
+            new RegExp(
+                `where ${rowKey} > ${cursorKey} order by ${sortKey} asc`,
+            ),
+        );
+        expect(pageSQL({ limit: 20, before: cursor }, 'asc').sql).toMatch(
+            new RegExp(
+                `where ${rowKey} < ${cursorKey} order by ${sortKey} desc`,
+            ),
+        );
+    });
+});
@@ -0,0 +1,50 @@
+import { asc, desc, sql, type Column } from 'drizzle-orm';
+import { type Cursor, type PageParams } from '../../api/pagination.js';
+
+// created_at keeps microseconds but cursors carry a JS Date (milliseconds),
+// so ordering and keyset comparisons both use the truncated value.
+export function keysetSortKey(createdAt: Column) {
+    return sql`date_trunc('milliseconds', ${createdAt})`;
+}
+
+export function keysetOrder(
+    createdAt: Column,
+    id: Column,
+    descending: boolean,
+) {
+    const sortKey = keysetSortKey(createdAt);
+    return descending ? [desc(sortKey), desc(id)] : [asc(sortKey), asc(id)];
+}
+
+// Rows strictly after the cursor in the given order
+export function keysetAfter(
+    createdAt: Column,
+    id: Column,
+    cursor: Cursor,
+    descending: boolean,
+) {
+    const rowKey = sql`(${keysetSortKey(createdAt)}, ${id})`;
+    const cursorKey = sql`(${cursor.createdAt.toISOString()}::timestamp, ${cursor.id}::uuid)`;
+    return descending
+        ? sql`${rowKey} < ${cursorKey}`
+        : sql`${rowKey} > ${cursorKey}`;
+}
+
+// The where clause and orderBy for one page of a feed ordered by
+// (createdAt, id). Paging backwards (before) walks the feed in reverse, so
+// callers fetch limit + 1 rows and hand them to buildPage.
+export function keysetPage(
+    createdAt: Column,
+    id: Column,
+    params: PageParams,
+    order: 'asc' | 'desc' = 'desc',
+) {
+    const descending = (order === 'desc') !== (params.before !== undefined);
+    const cursor = params.after ?? params.before;
+    return {
+        where: cursor
+            ? keysetAfter(createdAt, id, cursor, descending)
+            : undefined,
+        orderBy: keysetOrder(createdAt, id, descending),
+    };
+}
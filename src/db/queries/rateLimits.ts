@@ -0,0 +1,42 @@
+import { eq, lt, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import { rateLimitBuckets } from '../schema.js';
+import { type TokenBucket } from '../../api/rateLimit.js';
+
+// Reads, updates and writes back one bucket. The advisory lock serializes
+// concurrent requests for the same key across every server instance, even
+// before the bucket row exists.
+export async function updateRateLimitBucket<T>(
+    key: string,
+    update: (bucket: TokenBucket | undefined) => {
+        bucket: TokenBucket;
+        result: T;
+    },
+): Promise<T> {
+    return db.transaction(async (tx) => {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+        const [current] = await tx
+            .select({
+                tokens: rateLimitBuckets.tokens,
+                updatedAt: rateLimitBuckets.updatedAt,
+            })
+            .from(rateLimitBuckets)
+            .where(eq(rateLimitBuckets.key, key));
+        const { bucket, result } = update(current);
+        await tx
+            .insert(rateLimitBuckets)
+            .values({ key, ...bucket })
+            .onConflictDoUpdate({ target: rateLimitBuckets.key, set: bucket });
+        return result;
+    });
+}
+
+// Buckets untouched since updatedBefore have refilled and behave like missing
+// ones. Returns how many were deleted.
+export async function deleteIdleRateLimitBuckets(updatedBefore: Date) {
+    const deleted = await db
+        .delete(rateLimitBuckets)
+        .where(lt(rateLimitBuckets.updatedAt, updatedBefore))
+        .returning({ key: rateLimitBuckets.key });
+    return deleted.length;
+}
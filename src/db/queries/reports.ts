@@ -0,0 +1,72 @@
+import { and, eq, getTableColumns } from 'drizzle-orm';
+import { db } from '../index.js';
+import {
+    chirps,
+    reports,
+    type NewReport,
+    type ReportStatus,
+} from '../schema.js';
+import { type PageParams } from '../../api/pagination.js';
+import { keysetPage } from './pagination.js';
+
+// Returns undefined when the user already reported this chirp
+export async function createReport(report: NewReport) {
+    const [result] = await db
+        .insert(reports)
+        .values(report)
+        .onConflictDoNothing()
+        .returning();
+    return result;
+}
+
+// Reports with the reported chirp's body and author, which are null once
+// the chirp has been deleted
+function reportColumns() {
+    return {
+        ...getTableColumns(reports),
+        chirpBody: chirps.body,
+        chirpAuthorId: chirps.userId,
+    };
+}
+
+export async function getReportById(reportId: string) {
+    const [result] = await db
+        .select(reportColumns())
+        .from(reports)
+        .leftJoin(chirps, eq(reports.chirpId, chirps.id))
+        .where(eq(reports.id, reportId));
+    return result;
+}
+
+// Oldest first; like getAllChirps this returns up to limit + 1 rows in
+// fetch order
+export async function getReports(status: ReportStatus, params: PageParams) {
+    const page = keysetPage(reports.createdAt, reports.id, params, 'asc');
+
+    const result = await db
+        .select(reportColumns())
+        .from(reports)
+        .leftJoin(chirps, eq(reports.chirpId, chirps.id))
+        .where(and(eq(reports.status, status), page.where))
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1);
+    return result;
+}
+
+export async function resolveReport(reportId: string, status: ReportStatus) {
+    await db
+        .update(reports)
+        .set({ status, resolvedAt: new Date() })
+        .where(and(eq(reports.id, reportId), eq(reports.status, 'open')));
+}
+
+// Closes every open report about a chirp once an action covers them all
+export async function resolveChirpReports(
+    chirpId: string,
+    status: ReportStatus,
+) {
+    await db
+        .update(reports)
+        .set({ status, resolvedAt: new Date() })
+        .where(and(eq(reports.chirpId, chirpId), eq(reports.status, 'open')));
+}
@@ -1,39 +1,127 @@
 import { db } from '../index.js';
 import { refreshTokens, type NewRefreshToken } from '../schema.js';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq, gt, isNull, sql } from 'drizzle-orm';
 
-export async function createRefreshToken(token: string, userId: string) {
+const REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 60;
+
+export async function createRefreshToken(
+    tokenHash: string,
+    userId: string,
+    familyId: string,
+    userAgent?: string,
+) {
     const newToken: NewRefreshToken = {
-        token,
+        tokenHash,
         user_id: userId,
-        expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 60),
+        familyId,
+        userAgent: userAgent?.slice(0, 512),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
         revokedAt: null,
     };
     await db.insert(refreshTokens).values(newToken);
 }
 
-export async function getRefreshToken(userId: string) {
+export async function getRefreshToken(tokenHash: string) {
     const [result] = await db
         .select()
         .from(refreshTokens)
-        .where(eq(refreshTokens.user_id, userId));
+        .where(eq(refreshTokens.tokenHash, tokenHash));
     return result;
 }
 
-export async function getUserFromRefreshToken(token: string) {
-    const [result] = await db
-        .select()
-        .from(refreshTokens)
-        .where(eq(refreshTokens.token, token));
-    return result;
+// Marks the token as replaced and issues its successor in the same family.
+// Returns undefined when the token was rotated concurrently, which the
+// caller treats as reuse.
+export async function rotateRefreshToken(
+    tokenHash: string,
+    newTokenHash: string,
+    userAgent?: string,
+) {
+    return db.transaction(async (tx) => {
+        const [rotated] = await tx
+            .update(refreshTokens)
+            .set({ rotatedAt: new Date() })
+            .where(
+                and(
+                    eq(refreshTokens.tokenHash, tokenHash),
+                    isNull(refreshTokens.rotatedAt),
+                ),
+            )
+            .returning();
+        if (!rotated) {
+            return undefined;
+        }
+        const [result] = await tx
+            .insert(refreshTokens)
+            .values({
+                tokenHash: newTokenHash,
+                user_id: rotated.user_id,
+                familyId: rotated.familyId,
+                userAgent: userAgent?.slice(0, 512) ?? rotated.userAgent,
+                expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            })
+            .returning();
+        return result;
+    });
+}
+
+// Revokes every token of a session. Returns false when the session does not
+// belong to the user or has no active token left.
+export async function revokeRefreshTokenFamily(
+    familyId: string,
+    userId?: string,
+) {
+    const result = await db
+        .update(refreshTokens)
+        .set({ revokedAt: new Date() })
+        .where(
+            and(
+                eq(refreshTokens.familyId, familyId),
+                userId ? eq(refreshTokens.user_id, userId) : undefined,
+                isNull(refreshTokens.revokedAt),
+            ),
+        )
+        .returning({ tokenHash: refreshTokens.tokenHash });
+    return result.length > 0;
 }
 
-export async function revokeRefreshToken(token: string) {
-    const now = new Date();
+export async function revokeUserRefreshTokens(userId: string) {
     await db
         .update(refreshTokens)
         .set({
-            revokedAt: now,
+            revokedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(refreshTokens.user_id, userId),
+                isNull(refreshTokens.revokedAt),
+            ),
+        );
+}
+
+// A session is represented by its one live token: not rotated, revoked or
+// expired. That token was issued by the last refresh, so its createdAt is
+// when the session was last used.
+export async function getUserSessions(userId: string) {
+    return db
+        .select({
+            id: refreshTokens.familyId,
+            userAgent: refreshTokens.userAgent,
+            createdAt: sql<Date>`(
+                select min(family.created_at) from refresh_tokens as family
+                where family.family_id = refresh_tokens.family_id
+            )`.mapWith(refreshTokens.createdAt),
+            lastUsedAt: refreshTokens.createdAt,
+            expiresAt: refreshTokens.expiresAt,
         })
-        .where(eq(refreshTokens.token, token));
+        .from(refreshTokens)
+        .where(
+            and(
+                eq(refreshTokens.user_id, userId),
+                isNull(refreshTokens.rotatedAt),
+                isNull(refreshTokens.revokedAt),
+                gt(refreshTokens.expiresAt, new Date()),
+            ),
+        )
+        .orderBy(desc(refreshTokens.createdAt));
 }
@@ -0,0 +1,44 @@
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../index.js';
+import { userTokens, type UserTokenPurpose } from '../schema.js';
+
+type NewUserToken = typeof userTokens.$inferInsert;
+
+// Issuing a token spends any earlier unused one for the same purpose, so only
+// the most recent mail works
+export async function createUserToken(token: NewUserToken) {
+    await db.transaction(async (tx) => {
+        await tx
+            .update(userTokens)
+            .set({ usedAt: new Date() })
+            .where(
+                and(
+                    eq(userTokens.userId, token.userId),
+                    eq(userTokens.purpose, token.purpose),
+                    isNull(userTokens.usedAt),
+                ),
+            );
+        await tx.insert(userTokens).values(token);
+    });
+}
+
+// Marks the token used and returns it, or undefined when it does not exist,
+// is for another purpose, was already used or has expired
+export async function consumeUserToken(
+    tokenHash: string,
+    purpose: UserTokenPurpose,
+) {
+    const [result] = await db
+        .update(userTokens)
+        .set({ usedAt: new Date() })
+        .where(
+            and(
+                eq(userTokens.tokenHash, tokenHash),
+                eq(userTokens.purpose, purpose),
+                isNull(userTokens.usedAt),
+                gt(userTokens.expiresAt, new Date()),
+            ),
+        )
+        .returning();
+    return result;
+}
@@ -1,6 +1,6 @@
 import { db } from '../index.js';
-import { type NewUser, users } from '../schema.js';
-import { eq } from 'drizzle-orm';
+import { type NewUser, type Role, users } from '../schema.js';
+import { and, eq } from 'drizzle-orm';
 
 export async function createUser(user: NewUser) {
     const [result] = await db
@@ -44,3 +44,40 @@ export async function upgradeUser(userId: string) {
         .returning();
     return result;
 }
+
+export async function downgradeUser(userId: string) {
+    const [result] = await db
+        .update(users)
+        .set({ isChirpyRed: false })
+        .where(eq(users.id, userId))
+        .returning();
+    return result;
+}
+
+export async function suspendUser(userId: string) {
+    const [result] = await db
+        .update(users)
+        .set({ suspendedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+    return result;
+}
+
+export async function setUserRole(userId: string, role: Role) {
+    const [result] = await db
+        .update(users)
+        .set({ role })
+        .where(eq(users.id, userId))
+        .returning();
+    return result;
+}
+
+// Only verifies the address the token was mailed to
+export async function verifyUserEmail(userId: string, email: string) {
+    const [result] = await db
+        .update(users)
+        .set({ emailVerifiedAt: new Date() })
+        .where(and(eq(users.id, userId), eq(users.email, email)))
+        .returning();
+    return result;
+}
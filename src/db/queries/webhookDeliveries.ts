@@ -0,0 +1,144 @@
+import { and, asc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import {
+    webhookDeliveries,
+    webhookDeliveryAttempts,
+    webhookSubscriptions,
+    type OutboundEventType,
+} from '../schema.js';
+import { type PageParams } from '../../api/pagination.js';
+import { keysetPage } from './pagination.js';
+
+type NewWebhookDeliveryAttempt = typeof webhookDeliveryAttempts.$inferInsert;
+
+export async function createWebhookDeliveries(
+    subscriptionIds: string[],
+    eventId: string,
+    event: OutboundEventType,
+    payload: unknown,
+) {
+    if (subscriptionIds.length === 0) {
+        return;
+    }
+    await db.insert(webhookDeliveries).values(
+        subscriptionIds.map((subscriptionId) => ({
+            subscriptionId,
+            eventId,
+            event,
+            payload,
+        })),
+    );
+}
+
+// Claims up to `limit` due deliveries with their subscription's url and
+// secret. Claimed rows are pushed leaseSeconds into the future, so another
+// worker (or this one after a crash) only picks them up once the lease ends.
+export async function claimDueWebhookDeliveries(
+    limit: number,
+    leaseSeconds: number,
+) {
+    return db.transaction(async (tx) => {
+        const due = await tx
+            .select({
+                delivery: webhookDeliveries,
+                url: webhookSubscriptions.url,
+                secret: webhookSubscriptions.secret,
+            })
+            .from(webhookDeliveries)
+            .innerJoin(
+                webhookSubscriptions,
+                eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id),
+            )
+            .where(
+                and(
+                    eq(webhookDeliveries.status, 'pending'),
+                    lte(webhookDeliveries.nextAttemptAt, new Date()),
+                ),
+            )
+            .orderBy(asc(webhookDeliveries.nextAttemptAt))
+            .limit(limit)
+            .for('update', { of: webhookDeliveries, skipLocked: true });
+        if (due.length > 0) {
+            await tx
+                .update(webhookDeliveries)
+                .set({
+                    nextAttemptAt: new Date(Date.now() + leaseSeconds * 1000),
+                })
+                .where(
+                    inArray(
+                        webhookDeliveries.id,
+                        due.map(({ delivery }) => delivery.id),
+                    ),
+                );
+        }
+        return due;
+    });
+}
+
+// Logs the attempt and moves the delivery on: done when succeeded or failed,
+// otherwise pending again from nextAttemptAt
+export async function recordWebhookDeliveryAttempt(
+    attempt: NewWebhookDeliveryAttempt,
+    outcome:
+        | { status: 'succeeded' | 'failed' }
+        | { status: 'pending'; nextAttemptAt: Date },
+) {
+    await db.transaction(async (tx) => {
+        await tx.insert(webhookDeliveryAttempts).values(attempt);
+        await tx
+            .update(webhookDeliveries)
+            .set({
+                attemptCount: sql`${webhookDeliveries.attemptCount} + 1`,
+                status: outcome.status,
+                ...(outcome.status === 'pending'
+                    ? { nextAttemptAt: outcome.nextAttemptAt }
+                    : { completedAt: new Date() }),
+            })
+            .where(eq(webhookDeliveries.id, attempt.deliveryId));
+    });
+}
+
+// Newest first, up to limit + 1 rows for buildPage, each with its attempts
+// oldest first
+export async function getSubscriptionDeliveries(
+    subscriptionId: string,
+    params: PageParams,
+) {
+    const page = keysetPage(
+        webhookDeliveries.createdAt,
+        webhookDeliveries.id,
+        params,
+    );
+
+    const deliveries = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(
+            and(
+                eq(webhookDeliveries.subscriptionId, subscriptionId),
+                page.where,
+            ),
+        )
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1);
+    if (deliveries.length === 0) {
+        return [];
+    }
+
+    const attempts = await db
+        .select()
+        .from(webhookDeliveryAttempts)
+        .where(
+            inArray(
+                webhookDeliveryAttempts.deliveryId,
+                deliveries.map((delivery) => delivery.id),
+            ),
+        )
+        .orderBy(asc(webhookDeliveryAttempts.createdAt));
+    return deliveries.map((delivery) => ({
+        ...delivery,
+        attempts: attempts
+            .filter((attempt) => attempt.deliveryId === delivery.id)
+            .map(({ deliveryId, ...attempt }) => attempt),
+    }));
+}
@@ -0,0 +1,104 @@
+import { and, eq, lt, or, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import { webhookEvents, type WebhookEventStatus } from '../schema.js';
+import { type PageParams } from '../../api/pagination.js';
+import { keysetPage } from './pagination.js';
+
+type NewWebhookEvent = typeof webhookEvents.$inferInsert;
+
+// Returns undefined when an event with this eventId was already received
+export async function recordWebhookEvent(event: NewWebhookEvent) {
+    const [result] = await db
+        .insert(webhookEvents)
+        .values(event)
+        .onConflictDoNothing({ target: webhookEvents.eventId })
+        .returning();
+    return result;
+}
+
+// Claims an event for another attempt when the provider redelivers it: one
+// that failed, or one whose last attempt was claimed before staleBefore and
+// never finished. Returns undefined for events that are processed, ignored
+// or in progress.
+export async function retryWebhookEvent(eventId: string, staleBefore: Date) {
+    const [result] = await db
+        .update(webhookEvents)
+        .set({
+            status: 'received',
+            error: null,
+            attempts: sql`${webhookEvents.attempts} + 1`,
+            claimedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(webhookEvents.eventId, eventId),
+                or(
+                    eq(webhookEvents.status, 'failed'),
+                    and(
+                        eq(webhookEvents.status, 'received'),
+                        lt(webhookEvents.claimedAt, staleBefore),
+                    ),
+                ),
+            ),
+        )
+        .returning();
+    return result;
+}
+
+// Admin replays run whatever the status, so they are counted unconditionally
+export async function countWebhookEventAttempt(id: string) {
+    const [result] = await db
+        .update(webhookEvents)
+        .set({
+            attempts: sql`${webhookEvents.attempts} + 1`,
+            claimedAt: new Date(),
+        })
+        .where(eq(webhookEvents.id, id))
+        .returning();
+    return result;
+}
+
+export async function finishWebhookEvent(
+    id: string,
+    status: WebhookEventStatus,
+    error: string | null = null,
+) {
+    const [result] = await db
+        .update(webhookEvents)
+        .set({
+            status,
+            error: error?.slice(0, 1024) ?? null,
+            processedAt: new Date(),
+        })
+        .where(eq(webhookEvents.id, id))
+        .returning();
+    return result;
+}
+
+export async function getWebhookEventById(id: string) {
+    const [result] = await db
+        .select()
+        .from(webhookEvents)
+        .where(eq(webhookEvents.id, id));
+    return result;
+}
+
+// Newest first, up to limit + 1 rows for buildPage
+export async function getWebhookEvents(
+    status: WebhookEventStatus | undefined,
+    params: PageParams,
+) {
+    const page = keysetPage(webhookEvents.createdAt, webhookEvents.id, params);
+
+    return db
+        .select()
+        .from(webhookEvents)
+        .where(
+            and(
+                status ? eq(webhookEvents.status, status) : undefined,
+                page.where,
+            ),
+        )
+        .orderBy(...page.orderBy)
+        .limit(params.limit + 1);
+}
@@ -0,0 +1,66 @@
+import { and, desc, eq, or, sql } from 'drizzle-orm';
+import { db } from '../index.js';
+import {
+    users,
+    webhookSubscriptions,
+    type OutboundEventType,
+} from '../schema.js';
+
+type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+export async function createWebhookSubscription(
+    subscription: NewWebhookSubscription,
+) {
+    const [result] = await db
+        .insert(webhookSubscriptions)
+        .values(subscription)
+        .returning();
+    return result;
+}
+
+export async function getWebhookSubscriptionById(id: string) {
+    const [result] = await db
+        .select()
+        .from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.id, id));
+    return result;
+}
+
+// Newest first. Users have few subscriptions, so there is no pagination.
+export async function getUserWebhookSubscriptions(userId: string) {
+    return db
+        .select()
+        .from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.userId, userId))
+        .orderBy(desc(webhookSubscriptions.createdAt));
+}
+
+export async function deleteWebhookSubscription(id: string) {
+    await db
+        .delete(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.id, id));
+}
+
+// Subscriptions that should receive `event`. Events about a user (subjectId)
+// only go to that user's own subscriptions and to admins'.
+export async function getEventSubscriptionIds(
+    event: OutboundEventType,
+    subjectId?: string,
+): Promise<string[]> {
+    const rows = await db
+        .select({ id: webhookSubscriptions.id })
+        .from(webhookSubscriptions)
+        .innerJoin(users, eq(webhookSubscriptions.userId, users.id))
+        .where(
+            and(
+                sql`${event} = any(${webhookSubscriptions.events})`,
+                subjectId
+                    ? or(
+                          eq(webhookSubscriptions.userId, subjectId),
+                          eq(users.role, 'admin'),
+                      )
+                    : undefined,
+            ),
+        );
+    return rows.map((row) => row.id);
+}
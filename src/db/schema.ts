@@ -1,11 +1,97 @@
+import { sql } from 'drizzle-orm';
 import {
+    type AnyPgColumn,
+    bigserial,
     boolean,
+    doublePrecision,
+    index,
+    integer,
+    jsonb,
+    pgEnum,
     pgTable,
+    primaryKey,
     timestamp,
+    unique,
     varchar,
     uuid,
 } from 'drizzle-orm/pg-core';
 
+// Each role includes the permissions of the ones before it
+export const userRole = pgEnum('user_role', ['user', 'moderator', 'admin']);
+
+// Chirps held by a moderation rule stay pending until an admin decides
+export const moderationStatus = pgEnum('moderation_status', [
+    'approved',
+    'pending',
+    'rejected',
+]);
+// Drafts wait for their author, scheduled chirps for publishAt
+export const chirpStatus = pgEnum('chirp_status', [
+    'published',
+    'scheduled',
+    'draft',
+]);
+export const moderationRuleKind = pgEnum('moderation_rule_kind', [
+    'word',
+    'regex',
+]);
+export const reportReason = pgEnum('report_reason', [
+    'spam',
+    'harassment',
+    'hate',
+    'misinformation',
+    'other',
+]);
+export const reportStatus = pgEnum('report_status', [
+    'open',
+    'dismissed',
+    'chirp_deleted',
+    'author_suspended',
+]);
+export const moderationAction = pgEnum('moderation_action', [
+    'mask',
+    'reject',
+    'hold',
+]);
+
+// Only invalid_credentials counts towards lockouts. Attempts refused while
+// locked out are recorded but do not extend the lockout.
+export const loginOutcome = pgEnum('login_outcome', [
+    'success',
+    'invalid_credentials',
+    'locked_out',
+    'suspended',
+]);
+
+export const userTokenPurpose = pgEnum('user_token_purpose', [
+    'password_reset',
+    'email_verification',
+]);
+
+// received until the handler finishes, failed events are retried when the
+// provider redelivers them or an admin replays them
+export const webhookEventStatus = pgEnum('webhook_event_status', [
+    'received',
+    'processed',
+    'ignored',
+    'failed',
+]);
+
+// Events delivered to outbound webhook subscriptions
+export const outboundEventType = pgEnum('outbound_event_type', [
+    'chirp.created',
+    'chirp.deleted',
+    'user.upgraded',
+    'user.downgraded',
+]);
+
+// pending until delivered (succeeded) or out of attempts (failed)
+export const webhookDeliveryStatus = pgEnum('webhook_delivery_status', [
+    'pending',
+    'succeeded',
+    'failed',
+]);
+
 export const users = pgTable('users', {
     id: uuid('id').primaryKey().defaultRandom(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -18,35 +104,392 @@ export const users = pgTable('users', {
         .notNull()
         .default('unset'),
     isChirpyRed: boolean('is_chirpy_red').notNull().default(false),
+    suspendedAt: timestamp('suspended_at'),
+    role: userRole('role').notNull().default('user'),
+    // Cleared whenever the email changes, until the new address is verified
+    emailVerifiedAt: timestamp('email_verified_at'),
 });
 
-export const chirps = pgTable('chirps', {
-    id: uuid('id').primaryKey().defaultRandom(),
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at')
-        .notNull()
-        .defaultNow()
-        .$onUpdate(() => new Date()),
-    body: varchar('body', { length: 140 }).notNull(),
-    userId: uuid('user_id')
-        .references(() => users.id, { onDelete: 'cascade' })
-        .notNull(),
-});
+export const chirps = pgTable(
+    'chirps',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at')
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+        // Fits the longest chirp any plan allows, see api/entitlements.ts
+        body: varchar('body', { length: 500 }).notNull(),
+        userId: uuid('user_id')
+            .references(() => users.id, { onDelete: 'cascade' })
+            .notNull(),
+        // Replies outlive a parent deleted through the API (it becomes a
+        // tombstone), but not one removed by cascading a user delete.
+        replyToId: uuid('reply_to_id').references(
+            (): AnyPgColumn => chirps.id,
+            {
+                onDelete: 'set null',
+            },
+        ),
+        deletedAt: timestamp('deleted_at'),
+        moderationStatus: moderationStatus('moderation_status')
+            .notNull()
+            .default('approved'),
+        status: chirpStatus('status').notNull().default('published'),
+        publishAt: timestamp('publish_at'),
+    },
+    (table) => [
+        // Must match chirpSearchDocument in queries/chirps.ts
+        index('chirps_body_search_idx').using(
+            'gin',
+            sql`to_tsvector('english', ${table.body})`,
+        ),
+        index('chirps_reply_to_id_idx').on(table.replyToId),
+        // The scheduler's queue
+        index('chirps_scheduled_publish_at_idx')
+            .on(table.publishAt)
+            .where(sql`${table.status} = 'scheduled'`),
+    ],
+);
 
-export const refreshTokens = pgTable('refresh_tokens', {
-    token: varchar('token', { length: 255 }).primaryKey(),
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at')
-        .notNull()
-        .defaultNow()
-        .$onUpdate(() => new Date()),
-    user_id: uuid('user_id')
-        .notNull()
-        .references(() => users.id, { onDelete: 'cascade' }),
-    expiresAt: timestamp('expires_at').notNull(),
-    revokedAt: timestamp('revoked_at'),
+// Refresh tokens are stored as SHA-256 hashes. Every refresh rotates the
+// token, and all tokens descended from one login share a familyId, which is
+// the id of the session. rotatedAt marks tokens that have been replaced, so
+// presenting one again means it was stolen.
+export const refreshTokens = pgTable(
+    'refresh_tokens',
+    {
+        tokenHash: varchar('token_hash', { length: 64 }).primaryKey(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at')
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+        user_id: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        familyId: uuid('family_id').notNull(),
+        userAgent: varchar('user_agent', { length: 512 }),
+        expiresAt: timestamp('expires_at').notNull(),
+        rotatedAt: timestamp('rotated_at'),
+        revokedAt: timestamp('revoked_at'),
+    },
+    (table) => [
+        index('refresh_tokens_user_id_idx').on(table.user_id),
+        index('refresh_tokens_family_id_idx').on(table.familyId),
+    ],
+);
+
+export const follows = pgTable(
+    'follows',
+    {
+        followerId: uuid('follower_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        followeeId: uuid('followee_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => [
+        primaryKey({ columns: [table.followerId, table.followeeId] }),
+        index('follows_followee_id_idx').on(table.followeeId),
+    ],
+);
+
+export const chirpLikes = pgTable(
+    'chirp_likes',
+    {
+        chirpId: uuid('chirp_id')
+            .notNull()
+            .references(() => chirps.id, { onDelete: 'cascade' }),
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => [primaryKey({ columns: [table.chirpId, table.userId] })],
+);
+
+// Each row is a body a chirp had before it was edited
+export const chirpRevisions = pgTable(
+    'chirp_revisions',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        chirpId: uuid('chirp_id')
+            .notNull()
+            .references(() => chirps.id, { onDelete: 'cascade' }),
+        body: varchar('body', { length: 500 }).notNull(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => [index('chirp_revisions_chirp_id_idx').on(table.chirpId)],
+);
+
+export const moderationRules = pgTable(
+    'moderation_rules',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at')
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+        pattern: varchar('pattern', { length: 255 }).notNull(),
+        kind: moderationRuleKind('kind').notNull().default('word'),
+        action: moderationAction('action').notNull().default('mask'),
+    },
+    (table) => [unique().on(table.pattern, table.kind)],
+);
+
+export const reports = pgTable(
+    'reports',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at')
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+        // Kept after the chirp is gone so resolved reports stay auditable
+        chirpId: uuid('chirp_id').references(() => chirps.id, {
+            onDelete: 'set null',
+        }),
+        reporterId: uuid('reporter_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        reason: reportReason('reason').notNull(),
+        details: varchar('details', { length: 500 }),
+        status: reportStatus('status').notNull().default('open'),
+        resolvedAt: timestamp('resolved_at'),
+    },
+    (table) => [
+        unique().on(table.chirpId, table.reporterId),
+        index('reports_status_idx').on(table.status),
+    ],
+);
+
+// Single-use tokens mailed to the user, stored hashed like refresh tokens.
+// Verification tokens remember the address they were sent to, so they stop
+// working if the email changes again before they are used.
+export const userTokens = pgTable(
+    'user_tokens',
+    {
+        tokenHash: varchar('token_hash', { length: 64 }).primaryKey(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        purpose: userTokenPurpose('purpose').notNull(),
+        email: varchar('email', { length: 255 }).notNull(),
+        expiresAt: timestamp('expires_at').notNull(),
+        usedAt: timestamp('used_at'),
+    },
+    (table) => [
+        index('user_tokens_user_id_purpose_idx').on(
+            table.userId,
+            table.purpose,
+        ),
+    ],
+);
+
+// Every login attempt, including ones for unknown emails (userId null).
+// email is normalized to lowercase so lockouts cannot be dodged by case.
+export const loginAttempts = pgTable(
+    'login_attempts',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        email: varchar('email', { length: 255 }).notNull(),
+        userId: uuid('user_id').references(() => users.id, {
+            onDelete: 'cascade',
+        }),
+        ip: varchar('ip', { length: 64 }),
+        userAgent: varchar('user_agent', { length: 512 }),
+        outcome: loginOutcome('outcome').notNull(),
+    },
+    (table) => [
+        index('login_attempts_email_created_at_idx').on(
+            table.email,
+            table.createdAt,
+        ),
+        index('login_attempts_ip_created_at_idx').on(table.ip, table.createdAt),
+        index('login_attempts_user_id_created_at_idx').on(
+            table.userId,
+            table.createdAt,
+        ),
+    ],
+);
+
+// Token buckets for the Postgres rate limit store, keyed by policy and client
+export const rateLimitBuckets = pgTable('rate_limit_buckets', {
+    key: varchar('key', { length: 320 }).primaryKey(),
+    tokens: doublePrecision('tokens').notNull(),
+    updatedAt: timestamp('updated_at').notNull(),
 });
 
+// Every Polka event we accepted, keyed by Polka's event id so redeliveries
+// are recognized and skipped
+export const webhookEvents = pgTable(
+    'webhook_events',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        eventId: varchar('event_id', { length: 255 }).notNull().unique(),
+        event: varchar('event', { length: 255 }).notNull(),
+        payload: jsonb('payload').notNull(),
+        status: webhookEventStatus('status').notNull().default('received'),
+        error: varchar('error', { length: 1024 }),
+        attempts: integer('attempts').notNull().default(1),
+        // When the current attempt started. An event still 'received' long
+        // after this was abandoned by a crashed process.
+        claimedAt: timestamp('claimed_at').notNull().defaultNow(),
+        processedAt: timestamp('processed_at'),
+    },
+    (table) => [index('webhook_events_status_idx').on(table.status)],
+);
+
+// Outbound webhooks registered by users. The secret signs every delivery and
+// is kept in plain text because it is needed to sign, not just to compare.
+export const webhookSubscriptions = pgTable(
+    'webhook_subscriptions',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        url: varchar('url', { length: 2048 }).notNull(),
+        events: outboundEventType('events').array().notNull(),
+        secret: varchar('secret', { length: 64 }).notNull(),
+    },
+    (table) => [index('webhook_subscriptions_user_id_idx').on(table.userId)],
+);
+
+// The delivery queue: one row per event and subscription. eventId is shared
+// by the deliveries of one event so receivers can de-duplicate.
+export const webhookDeliveries = pgTable(
+    'webhook_deliveries',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        subscriptionId: uuid('subscription_id')
+            .notNull()
+            .references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+        eventId: uuid('event_id').notNull(),
+        event: outboundEventType('event').notNull(),
+        payload: jsonb('payload').notNull(),
+        status: webhookDeliveryStatus('status').notNull().default('pending'),
+        attemptCount: integer('attempt_count').notNull().default(0),
+        nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+        completedAt: timestamp('completed_at'),
+    },
+    (table) => [
+        index('webhook_deliveries_status_next_attempt_at_idx').on(
+            table.status,
+            table.nextAttemptAt,
+        ),
+        index('webhook_deliveries_subscription_id_idx').on(
+            table.subscriptionId,
+        ),
+    ],
+);
+
+// One row per HTTP request made for a delivery. statusCode is null when no
+// response arrived (timeout, connection refused, ...), error says why.
+export const webhookDeliveryAttempts = pgTable(
+    'webhook_delivery_attempts',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        deliveryId: uuid('delivery_id')
+            .notNull()
+            .references(() => webhookDeliveries.id, { onDelete: 'cascade' }),
+        statusCode: integer('status_code'),
+        error: varchar('error', { length: 1024 }),
+        durationMs: integer('duration_ms').notNull(),
+    },
+    (table) => [
+        index('webhook_delivery_attempts_delivery_id_idx').on(table.deliveryId),
+    ],
+);
+
+// Uploaded images. chirpId is null until the upload is attached to a chirp,
+// and uploads left unattached are deleted with their files. Deleting a chirp
+// through the API removes its attachments; set null hands any other deleted
+// chirp's attachments to that cleanup so their files are removed too.
+export const attachments = pgTable(
+    'attachments',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        chirpId: uuid('chirp_id').references(() => chirps.id, {
+            onDelete: 'set null',
+        }),
+        // Order within the chirp
+        position: integer('position'),
+        contentType: varchar('content_type', { length: 32 }).notNull(),
+        size: integer('size').notNull(),
+        width: integer('width').notNull(),
+        height: integer('height').notNull(),
+        storageKey: varchar('storage_key', { length: 256 }).notNull(),
+        thumbnailKey: varchar('thumbnail_key', { length: 256 }).notNull(),
+    },
+    (table) => [
+        index('attachments_chirp_id_idx').on(table.chirpId),
+        index('attachments_orphan_created_at_idx')
+            .on(table.createdAt)
+            .where(sql`${table.chirpId} is null`),
+    ],
+);
+
+export const chirpStreamEventType = pgEnum('chirp_stream_event_type', [
+    'chirp.created',
+    'chirp.deleted',
+]);
+
+// Recent chirp events for the live stream. The sequential id is the SSE event
+// id clients resume from; rows older than the retention window are pruned.
+export const chirpStreamEvents = pgTable(
+    'chirp_stream_events',
+    {
+        id: bigserial('id', { mode: 'number' }).primaryKey(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        event: chirpStreamEventType('event').notNull(),
+        authorId: uuid('author_id').notNull(),
+        data: jsonb('data').notNull(),
+    },
+    (table) => [
+        index('chirp_stream_events_created_at_idx').on(table.createdAt),
+    ],
+);
+
 export type NewUser = typeof users.$inferInsert;
 export type NewChirp = typeof chirps.$inferInsert;
 export type NewRefreshToken = typeof refreshTokens.$inferInsert;
+export type NewFollow = typeof follows.$inferInsert;
+export type NewChirpLike = typeof chirpLikes.$inferInsert;
+export type NewChirpRevision = typeof chirpRevisions.$inferInsert;
+export type NewModerationRule = typeof moderationRules.$inferInsert;
+export type ModerationRule = typeof moderationRules.$inferSelect;
+export type ModerationStatus = (typeof moderationStatus.enumValues)[number];
+export type ChirpStatus = (typeof chirpStatus.enumValues)[number];
+export type NewReport = typeof reports.$inferInsert;
+export type ReportStatus = (typeof reportStatus.enumValues)[number];
+export type Role = (typeof userRole.enumValues)[number];
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+export type UserTokenPurpose = (typeof userTokenPurpose.enumValues)[number];
+export type LoginOutcome = (typeof loginOutcome.enumValues)[number];
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type WebhookEventStatus = (typeof webhookEventStatus.enumValues)[number];
+export type OutboundEventType = (typeof outboundEventType.enumValues)[number];
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type ChirpStreamEventType =
+    (typeof chirpStreamEventType.enumValues)[number];
+export type Attachment = typeof attachments.$inferSelect;
+export type NewAttachment = typeof attachments.$inferInsert;
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { createLogger, REDACTED, type LoggerOptions } from './logger';
+
+type LogLine = Record<string, unknown> & {
+    level: string;
+    message: string;
+    timestamp: string;
+};
+
+function capture(options: Omit<LoggerOptions, 'write'>) {
+    const lines: LogLine[] = [];
+    const logger = createLogger({
+        ...options,
+        write: (line) => lines.push(JSON.parse(line)),
+    });
+    return { logger, lines };
+}
+
+describe('Structured Logger', () => {
+    it('should write one JSON object per line with level, timestamp and fields', () => {
+        const { logger, lines } = capture({ level: 'info', redact: [] });
+        logger.info('request completed', { status: 200 });
+
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toMatchObject({
+            level: 'info',
+            message: 'request completed',
+            status: 200,
+        });
+        expect(new Date(lines[0].timestamp).toISOString()).toBe(
+            lines[0].timestamp,
+        );
+    });
+
+    it('should drop lines below the configured level', () => {
+        const { logger, lines } = capture({ level: 'warn', redact: [] });
+        logger.debug('debug');
+        logger.info('info');
+        logger.warn('warn');
+        logger.error('error');
+
+        expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+    });
+
+    it('should reject unknown levels', () => {
+        // Comes from LOG_LEVEL, which the type cannot vouch for
+        // @ts-expect-error
+        expect(() => createLogger({ level: 'verbose', redact: [] })).toThrow(
+            'Unknown log level verbose',
+        );
+    });
+
+    it('should bind child fields to every line', () => {
+        const { logger, lines } = capture({ level: 'info', redact: [] });
+        const child = logger.child({ requestId: 'abc' });
+        child.info('first');
+        child.child({ userId: 'u1' }).info('second');
+
+        expect(lines[0].requestId).toBe('abc');
+        expect(lines[1]).toMatchObject({ requestId: 'abc', userId: 'u1' });
+    });
+
+    it('should redact configured fields at any depth, ignoring case', () => {
+        const { logger, lines } = capture({
+            level: 'debug',
+            redact: ['authorization', 'password'],
+        });
+        logger.debug('request details', {
+            headers: { Authorization: 'Bearer secret', accept: '*/*' },
+            body: { email: 'a@example.com', password: 'hunter2' },
+            items: [{ password: 'hunter2' }],
+        });
+
+        expect(lines[0].headers).toEqual({
+            Authorization: REDACTED,
+            accept: '*/*',
+        });
+        expect(lines[0].body).toEqual({
+            email: 'a@example.com',
+            password: REDACTED,
+        });
+        expect(lines[0].items).toEqual([{ password: REDACTED }]);
+    });
+
+    it('should serialize errors with their message and stack', () => {
+        const { logger, lines } = capture({ level: 'info', redact: [] });
+        logger.error('unhandled error', { error: new Error('boom') });
+
+        expect(lines[0].error).toMatchObject({
+            name: 'Error',
+            message: 'boom',
+            stack: expect.stringContaining('boom'),
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { config } from './config.js';
+
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof logLevels)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    // Logger whose lines all carry `fields`, e.g. the request id
+    child(fields: LogFields): Logger;
+};
+
+export type LoggerOptions = {
+    level: LogLevel;
+    // Field names (case-insensitive) whose values are replaced wherever they
+    // appear in a log line, including nested objects and header maps
+    redact: string[];
+    write?: (line: string) => void;
+};
+
+export const REDACTED = '[REDACTED]';
+
+// Emits one JSON object per line: level, timestamp, message, then fields
+export function createLogger(
+    options: LoggerOptions,
+    bound: LogFields = {},
+): Logger {
+    const threshold = logLevels.indexOf(options.level);
+    if (threshold === -1) {
+        throw new Error(
+            `Unknown log level ${options.level}, use one of ${logLevels.join(', ')}`,
+        );
+    }
+    const redact = new Set(options.redact.map((key) => key.toLowerCase()));
+    const write =
+        options.write ?? ((line: string) => process.stdout.write(line + '\n'));
+
+    const log = (level: LogLevel, message: string, fields?: LogFields) => {
+        if (logLevels.indexOf(level) < threshold) {
+            return;
+        }
+        const entry = {
+            level,
+            timestamp: new Date().toISOString(),
+            message,
+            ...bound,
+            ...fields,
+        };
+        write(JSON.stringify(redactValue(entry, redact)));
+    };
+
+    return {
+        debug: (message, fields) => log('debug', message, fields),
+        info: (message, fields) => log('info', message, fields),
+        warn: (message, fields) => log('warn', message, fields),
+        error: (message, fields) => log('error', message, fields),
+        child: (fields) => createLogger(options, { ...bound, ...fields }),
+    };
+}
+
+function redactValue(value: unknown, redact: Set<string>): unknown {
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: value.message,
+            stack: value.stack,
+        };
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, redact));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                redact.has(key.toLowerCase())
+                    ? REDACTED
+                    : redactValue(item, redact),
+            ]),
+        );
+    }
+    return value;
+}
+
+export const logger = createLogger(config.log);
@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createOutboxMailer } from './mailer';
+
+describe('Outbox Mailer', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+        if (dir) {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should write every message to its own file in the outbox', async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'chirpy-outbox-'));
+        const mailer = createOutboxMailer(
+            'Chirpy <no-reply@chirpy.local>',
+            dir,
+        );
+
+        await mailer.send({ to: 'a@example.com', subject: 'One', text: '1' });
+        await mailer.send({ to: 'b@example.com', subject: 'Two', text: '2' });
+
+        const files = (await readdir(dir)).sort();
+        expect(files).toHaveLength(2);
+        const mails = await Promise.all(
+            files.map(async (file) =>
+                JSON.parse(await readFile(path.join(dir!, file), 'utf8')),
+            ),
+        );
+        expect(mails.map((mail) => mail.subject).sort()).toEqual([
+            'One',
+            'Two',
+        ]);
+        expect(mails[0]).toMatchObject({
+            from: 'Chirpy <no-reply@chirpy.local>',
+        });
+    });
+
+    it('should create the outbox directory on first use', async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'chirpy-outbox-'));
+        const nested = path.join(dir, 'mail', 'outbox');
+        const mailer = createOutboxMailer('no-reply@chirpy.local', nested);
+
+        await mailer.send({ to: 'a@example.com', subject: 'Hi', text: 'Hi' });
+
+        expect(await readdir(nested)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,60 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import { config, type MailConfig } from './config.js';
+import { logger } from './logger.js';
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+export type Mailer = {
+    send(message: MailMessage): Promise<void>;
+};
+
+export function createSmtpMailer(smtpUrl: string, from: string): Mailer {
+    const transport = nodemailer.createTransport(smtpUrl);
+    return {
+        async send(message) {
+            await transport.sendMail({ from, ...message });
+        },
+    };
+}
+
+// For local development and tests: every message is written to `dir` as a
+// JSON file and announced in the log instead of being delivered. Without a
+// directory only the recipient and subject are logged; bodies carry live
+// reset and verification tokens, which have no place in logs.
+export function createOutboxMailer(from: string, dir?: string): Mailer {
+    let sequence = 0;
+    return {
+        async send(message) {
+            const mail = { from, ...message, sentAt: new Date() };
+            if (!dir) {
+                logger.info('outbox mail', {
+                    to: message.to,
+                    subject: message.subject,
+                });
+                return;
+            }
+            await mkdir(dir, { recursive: true });
+            sequence += 1;
+            const file = path.join(
+                dir,
+                `${mail.sentAt.getTime()}-${sequence}.json`,
+            );
+            await writeFile(file, JSON.stringify(mail, null, 4));
+            logger.info('outbox mail', { to: message.to, file });
+        },
+    };
+}
+
+export function createMailer(mail: MailConfig): Mailer {
+    return mail.smtpUrl
+        ? createSmtpMailer(mail.smtpUrl, mail.from)
+        : createOutboxMailer(mail.from, mail.outboxDir);
+}
+
+export const mailer = createMailer(config.mail);
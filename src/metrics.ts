@@ -0,0 +1,72 @@
+import {
+    Counter,
+    Gauge,
+    Histogram,
+    Registry,
+    collectDefaultMetrics,
+} from 'prom-client';
+
+// Single registry behind GET /metrics and the admin HTML page
+export const registry = new Registry();
+
+// Process stats: CPU, memory, event loop lag, GC, open handles
+collectDefaultMetrics({ register: registry });
+
+export const fileServerHits = new Counter({
+    name: 'chirpy_file_server_hits_total',
+    help: 'Requests served from the /app static file server',
+    registers: [registry],
+});
+
+// route is the matched route pattern (e.g. /api/chirps/:chirpId), never the
+// raw URL, so label cardinality stays bounded
+export const httpRequestsTotal = new Counter({
+    name: 'chirpy_http_requests_total',
+    help: 'HTTP requests by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+    registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+    name: 'chirpy_http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [registry],
+});
+
+export const errorsTotal = new Counter({
+    name: 'chirpy_errors_total',
+    help: 'Errors handled by the error handler, by error class',
+    labelNames: ['error'],
+    registers: [registry],
+});
+
+export const dbQueryDuration = new Histogram({
+    name: 'chirpy_db_query_duration_seconds',
+    help: 'Database query latency by SQL operation',
+    labelNames: ['operation'],
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+    registers: [registry],
+});
+
+// outcome is succeeded, retrying or failed (out of attempts)
+export const webhookDeliveriesTotal = new Counter({
+    name: 'chirpy_webhook_deliveries_total',
+    help: 'Outbound webhook delivery attempts by outcome',
+    labelNames: ['outcome'],
+    registers: [registry],
+});
+
+// transport is sse or websocket
+export const chirpStreamClients = new Gauge({
+    name: 'chirpy_chirp_stream_clients',
+    help: 'Clients connected to the live chirp stream by transport',
+    labelNames: ['transport'],
+    registers: [registry],
+});
+
+export async function getFileServerHits(): Promise<number> {
+    const metric = await fileServerHits.get();
+    return metric.values[0]?.value ?? 0;
+}
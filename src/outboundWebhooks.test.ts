@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import http from 'node:http';
+import { type AddressInfo } from 'node:net';
+import {
+    isPublicAddress,
+    PrivateAddressError,
+    resolvePublicAddresses,
+    retryDelaySeconds,
+    sendWebhook,
+    type OutboundEvent,
+} from './outboundWebhooks';
+import { verifyWebhookSignature } from './api/auth';
+
+const options = {
+    maxAttempts: 8,
+    baseDelaySeconds: 30,
+    maxDelaySeconds: 600,
+    timeoutMs: 50,
+    pollIntervalMs: 1000,
+    batchSize: 10,
+};
+
+const payload: OutboundEvent = {
+    id: '0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9',
+    event: 'chirp.created',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    data: { id: 'chirp', body: 'Hello' },
+};
+const target = { url: 'https://example.com/hook', secret: 'shh' };
+const now = 1_700_000_000_000;
+
+describe('Retry Delays', () => {
+    it('should double the delay after every failed attempt', () => {
+        expect([1, 2, 3, 4].map((n) => retryDelaySeconds(n, options))).toEqual([
+            30, 60, 120, 240,
+        ]);
+    });
+
+    it('should never wait longer than maxDelaySeconds', () => {
+        expect(retryDelaySeconds(10, options)).toBe(600);
+    });
+});
+
+describe('Webhook Targets', () => {
+    it('should refuse loopback, private, link-local and metadata addresses', () => {
+        for (const address of [
+            '127.0.0.1',
+            '10.1.2.3',
+            '172.16.0.1',
+            '192.168.1.1',
+            '169.254.169.254',
+            '100.64.0.1',
+            '0.0.0.0',
+            '::1',
+            'fd00::1',
+            'fe80::1',
+            '::ffff:127.0.0.1',
+        ]) {
+            expect(isPublicAddress(address), address).toBe(false);
+        }
+        expect(isPublicAddress('93.184.216.34')).toBe(true);
+        expect(isPublicAddress('2606:4700::1111')).toBe(true);
+    });
+
+    it('should refuse names with any private address', async () => {
+        const lookupFn = async () => [
+            { address: '93.184.216.34', family: 4 },
+            { address: '10.0.0.5', family: 4 },
+        ];
+        await expect(
+            resolvePublicAddresses('internal.example.com', lookupFn),
+        ).rejects.toThrow(PrivateAddressError);
+    });
+
+    it('should check IP hosts without looking them up', async () => {
+        const lookupFn = vi.fn();
+        await expect(resolvePublicAddresses('[::1]', lookupFn)).rejects.toThrow(
+            PrivateAddressError,
+        );
+        expect(lookupFn).not.toHaveBeenCalled();
+    });
+});
+
+describe('Webhook Delivery', () => {
+    it('should post the event signed with the subscription secret', async () => {
+        let request: RequestInit | undefined;
+        const fetchFn = (async (url: string, init: RequestInit) => {
+            request = init;
+            return new Response(null, { status: 204 });
+        }) as typeof fetch;
+
+        const result = await sendWebhook(
+            target,
+            'delivery-1',
+            payload,
+            options.timeoutMs,
+            fetchFn,
+            now,
+        );
+
+        expect(result).toMatchObject({ statusCode: 204, error: null });
+        const headers = request!.headers as Record<string, string>;
+        expect(headers['Chirpy-Event']).toBe('chirp.created');
+        expect(headers['Chirpy-Delivery']).toBe('delivery-1');
+        expect(() =>
+            verifyWebhookSignature(
+                headers['Chirpy-Signature'],
+                Buffer.from(request!.body as string),
+                ['shh'],
+                300,
+                now,
+            ),
+        ).not.toThrow();
+    });
+
+    it('should report non-2xx responses as failures', async () => {
+        const fetchFn = (async () =>
+            new Response('nope', { status: 500 })) as typeof fetch;
+        const result = await sendWebhook(
+            target,
+            'delivery-1',
+            payload,
+            options.timeoutMs,
+            fetchFn,
+        );
+        expect(result).toMatchObject({
+            statusCode: 500,
+            error: 'Responded with 500',
+        });
+    });
+
+    it('should report requests that get no response', async () => {
+        const fetchFn = ((url: string, init: RequestInit) =>
+            new Promise((resolve, reject) => {
+                init.signal!.addEventListener('abort', () =>
+                    reject(init.signal!.reason),
+                );
+            })) as typeof fetch;
+        const result = await sendWebhook(
+            target,
+            'delivery-1',
+            payload,
+            options.timeoutMs,
+            fetchFn,
+        );
+        expect(result).toMatchObject({
+            statusCode: null,
+            error: 'Timed out after 50ms',
+        });
+    });
+
+    it('should not send to a private IP', async () => {
+        const fetchFn = vi.fn();
+        const result = await sendWebhook(
+            { ...target, url: 'http://169.254.169.254/latest/meta-data' },
+            'delivery-1',
+            payload,
+            options.timeoutMs,
+            fetchFn,
+        );
+        expect(fetchFn).not.toHaveBeenCalled();
+        expect(result).toMatchObject({
+            statusCode: null,
+            error: expect.stringContaining('not a public address'),
+        });
+    });
+
+    it('should not connect to names that resolve to a private address', async () => {
+        const received = vi.fn();
+        const server = http.createServer((req, res) => {
+            received();
+            res.end();
+        });
+        await new Promise<void>((resolve) =>
+            server.listen(0, '127.0.0.1', resolve),
+        );
+        const { port } = server.address() as AddressInfo;
+        try {
+            const result = await sendWebhook(
+                { ...target, url: `http://localhost:${port}/hook` },
+                'delivery-1',
+                payload,
+                1000,
+            );
+            expect(result).toMatchObject({
+                statusCode: null,
+                error: expect.stringContaining('not a public address'),
+            });
+            expect(received).not.toHaveBeenCalled();
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,317 @@
+import { randomUUID } from 'node:crypto';
+import dns, { type LookupAddress } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+import { Agent, type Dispatcher } from 'undici';
+import { config, type OutboundWebhookConfig } from './config.js';
+import { logger } from './logger.js';
+import { webhookDeliveriesTotal } from './metrics.js';
+import { signWebhookPayload } from './api/auth.js';
+import {
+    claimDueWebhookDeliveries,
+    createWebhookDeliveries,
+    recordWebhookDeliveryAttempt,
+} from './db/queries/webhookDeliveries.js';
+import { getEventSubscriptionIds } from './db/queries/webhookSubscriptions.js';
+import { type OutboundEventType } from './db/schema.js';
+
+// Body of every delivery. id is the same for all deliveries of one event.
+export type OutboundEvent = {
+    id: string;
+    event: OutboundEventType;
+    createdAt: string;
+    data: unknown;
+};
+
+export type WebhookTarget = {
+    url: string;
+    secret: string;
+};
+
+// fetch, with undici's dispatcher option that Node's fetch understands
+export type WebhookFetch = (
+    url: string,
+    init: RequestInit & { dispatcher: Dispatcher },
+) => Promise<Response>;
+
+// statusCode is null when no response arrived
+export type AttemptResult = {
+    statusCode: number | null;
+    error: string | null;
+    durationMs: number;
+};
+
+// Queues a delivery for every subscription to the event. Events about a user
+// pass subjectId, see getEventSubscriptionIds.
+export async function publishEvent(
+    event: OutboundEventType,
+    data: unknown,
+    subjectId?: string,
+): Promise<void> {
+    const subscriptionIds = await getEventSubscriptionIds(event, subjectId);
+    const payload: OutboundEvent = {
+        id: randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+    };
+    await createWebhookDeliveries(subscriptionIds, payload.id, event, payload);
+}
+
+// The public fields of a chirp, as in chirp.created
+export function chirpEventData(chirp: {
+    id: string;
+    createdAt: Date;
+    body: string;
+    userId: string;
+    replyToId: string | null;
+}) {
+    const { id, createdAt, body, userId, replyToId } = chirp;
+    return { id, createdAt, body, userId, replyToId };
+}
+
+// Seconds to wait after the given (1-based) failed attempt
+export function retryDelaySeconds(
+    attempt: number,
+    options: OutboundWebhookConfig = config.outboundWebhooks,
+): number {
+    return Math.min(
+        options.baseDelaySeconds * 2 ** (attempt - 1),
+        options.maxDelaySeconds,
+    );
+}
+
+// Addresses a subscriber's URL must not reach: this host, private networks,
+// link-local (where cloud metadata services live) and other ranges that are
+// not routed on the internet. IPv4-mapped IPv6 addresses are checked against
+// the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 96],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    return (
+        family !== 0 &&
+        !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+    );
+}
+
+// URL keeps the brackets around IPv6 literals
+function unbracket(hostname: string) {
+    return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+export class PrivateAddressError extends Error {
+    constructor(hostname: string, address: string) {
+        super(
+            hostname === address
+                ? `${address} is not a public address`
+                : `${hostname} resolves to ${address}, which is not a public address`,
+        );
+        this.name = 'PrivateAddressError';
+    }
+}
+
+// Every address the host of a webhook URL stands for, or PrivateAddressError
+// if any of them is not public. Checked when a subscription is created and
+// again on every connection, as DNS may answer differently by then.
+export async function resolvePublicAddresses(
+    hostname: string,
+    lookupFn: (hostname: string) => Promise<LookupAddress[]> = (hostname) =>
+        dns.promises.lookup(hostname, { all: true }),
+): Promise<LookupAddress[]> {
+    const host = unbracket(hostname);
+    const addresses = isIP(host)
+        ? [{ address: host, family: isIP(host) }]
+        : await lookupFn(host);
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+        throw new PrivateAddressError(host, blocked.address);
+    }
+    return addresses;
+}
+
+// Connects only to the addresses resolvePublicAddresses let through, so a
+// name cannot be pointed at an internal address between the check and the
+// request. Hosts given as an IP are not looked up, sendWebhook checks those.
+const publicOnlyAgent = new Agent({
+    connect: {
+        lookup: (hostname, options, callback) => {
+            resolvePublicAddresses(hostname).then(
+                (addresses) =>
+                    options.all
+                        ? callback(null, addresses)
+                        : callback(
+                              null,
+                              addresses[0].address,
+                              addresses[0].family,
+                          ),
+                (error) => callback(error, []),
+            );
+        },
+    },
+});
+
+// Signed like Polka's webhooks to us, see verifyWebhookSignature. Redirects
+// are not followed, a subscriber must register its final URL.
+export async function sendWebhook(
+    target: WebhookTarget,
+    deliveryId: string,
+    payload: OutboundEvent,
+    timeoutMs: number,
+    fetchFn: WebhookFetch = fetch,
+    now = Date.now(),
+): Promise<AttemptResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(now / 1000);
+    const signature = signWebhookPayload(body, target.secret, timestamp);
+    const start = performance.now();
+    const durationMs = () => Math.round(performance.now() - start);
+    try {
+        // Only IPs are checked here, names are when connecting
+        const { hostname } = new URL(target.url);
+        if (isIP(unbracket(hostname))) {
+            await resolvePublicAddresses(hostname);
+        }
+        const response = await fetchFn(target.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'Chirpy-Webhooks/1.0',
+                'Chirpy-Event': payload.event,
+                'Chirpy-Delivery': deliveryId,
+                'Chirpy-Signature': `t=${timestamp},v1=${signature}`,
+            },
+            body,
+            redirect: 'manual',
+            dispatcher: publicOnlyAgent,
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        // The body is never read, release the connection
+        await response.body?.cancel();
+        return {
+            statusCode: response.status,
+            error: response.ok ? null : `Responded with ${response.status}`,
+            durationMs: durationMs(),
+        };
+    } catch (error) {
+        const timedOut = (error as Error).name === 'TimeoutError';
+        return {
+            statusCode: null,
+            error: timedOut
+                ? `Timed out after ${timeoutMs}ms`
+                : (((error as Error).cause as Error)?.message ??
+                  (error as Error).message),
+            durationMs: durationMs(),
+        };
+    }
+}
+
+// Sends the deliveries that are due and records the outcome of each.
+// Returns how many were sent.
+export async function deliverDueWebhooks(
+    options: OutboundWebhookConfig = config.outboundWebhooks,
+    fetchFn: WebhookFetch = fetch,
+): Promise<number> {
+    // Long enough for the request to finish before anyone else may retry it
+    const leaseSeconds = Math.ceil(options.timeoutMs / 1000) + 30;
+    const due = await claimDueWebhookDeliveries(
+        options.batchSize,
+        leaseSeconds,
+    );
+    await Promise.all(
+        due.map(async ({ delivery, url, secret }) => {
+            const result = await sendWebhook(
+                { url, secret },
+                delivery.id,
+                delivery.payload as OutboundEvent,
+                options.timeoutMs,
+                fetchFn,
+            );
+            const attempt = delivery.attemptCount + 1;
+            const succeeded = result.error === null;
+            const outcome = succeeded
+                ? ({ status: 'succeeded' } as const)
+                : attempt >= options.maxAttempts
+                  ? ({ status: 'failed' } as const)
+                  : ({
+                        status: 'pending',
+                        nextAttemptAt: new Date(
+                            Date.now() +
+                                retryDelaySeconds(attempt, options) * 1000,
+                        ),
+                    } as const);
+            await recordWebhookDeliveryAttempt(
+                { deliveryId: delivery.id, ...result },
+                outcome,
+            );
+            webhookDeliveriesTotal.inc({
+                outcome:
+                    outcome.status === 'pending' ? 'retrying' : outcome.status,
+            });
+            if (outcome.status === 'failed') {
+                logger.warn('webhook delivery failed', {
+                    deliveryId: delivery.id,
+                    url,
+                    attempts: attempt,
+                    error: result.error,
+                });
+            }
+        }),
+    );
+    return due.length;
+}
+
+// Polls for due deliveries until the returned function is called, which
+// resolves once the batch in flight is finished. A full batch is followed
+// immediately by the next one.
+export function startWebhookWorker(
+    options: OutboundWebhookConfig = config.outboundWebhooks,
+): () => Promise<void> {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+    let running: Promise<void> = Promise.resolve();
+
+    const poll = () => {
+        running = deliverDueWebhooks(options)
+            .then((count) => count === options.batchSize)
+            .catch((error) => {
+                logger.error('webhook worker failed', { error });
+                return false;
+            })
+            .then((more) => {
+                if (!stopped) {
+                    timer = setTimeout(poll, more ? 0 : options.pollIntervalMs);
+                }
+            });
+    };
+    poll();
+
+    return async () => {
+        stopped = true;
+        clearTimeout(timer);
+        await running;
+    };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http, { type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { drainServer } from './shutdown';
+
+let server: Server;
+let agent: http.Agent;
+
+// Answers after the number of milliseconds in the path, over keep-alive
+// connections like a browser or load balancer would use
+async function startServer() {
+    server = http.createServer((req, res) => {
+        setTimeout(() => res.end('done'), Number(req.url!.slice(1)));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    agent = new http.Agent({ keepAlive: true });
+    return (server.address() as AddressInfo).port;
+}
+
+function get(port: number, delayMs: number) {
+    return new Promise<string>((resolve, reject) => {
+        http.get({ port, path: `/${delayMs}`, agent }, (res) => {
+            let body = '';
+            res.on('data', (chunk) => (body += chunk));
+            res.on('end', () => resolve(body));
+        }).on('error', reject);
+    });
+}
+
+afterEach(() => {
+    agent.destroy();
+    server.closeAllConnections();
+});
+
+describe('Server Draining', () => {
+    it('should finish requests in flight and then close', async () => {
+        const port = await startServer();
+        await get(port, 0);
+        const inFlight = get(port, 200);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const start = Date.now();
+        const drained = await drainServer(server, 2000);
+        expect(drained).toBe(true);
+        await expect(inFlight).resolves.toBe('done');
+        // Not held open until the keep-alive timeout
+        expect(Date.now() - start).toBeLessThan(1000);
+        await expect(get(port, 0)).rejects.toThrow();
+    });
+
+    it('should cut off requests that outlast the timeout', async () => {
+        const port = await startServer();
+        const slow = get(port, 5000);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(await drainServer(server, 100)).toBe(false);
+        await expect(slow).rejects.toThrow();
+    });
+});
@@ -0,0 +1,78 @@
+import { type Server } from 'node:http';
+import { config, type LifecycleConfig } from './config.js';
+import { logger } from './logger.js';
+import { closeDb } from './db/index.js';
+
+let shuttingDown = false;
+
+// Readiness fails from the first signal on, see api/readiness.ts
+export function isShuttingDown(): boolean {
+    return shuttingDown;
+}
+
+// Stops accepting connections and resolves once every open one is closed:
+// idle keep-alive connections right away, busy ones once their response is
+// sent. Resolves to false if some were still busy after timeoutMs and had to
+// be cut off.
+export function drainServer(server: Server, timeoutMs: number) {
+    return new Promise<boolean>((resolve) => {
+        const idle = setInterval(() => server.closeIdleConnections(), 100);
+        const timeout = setTimeout(() => {
+            clearInterval(idle);
+            server.closeAllConnections();
+            resolve(false);
+        }, timeoutMs);
+        server.close(() => {
+            clearInterval(idle);
+            clearTimeout(timeout);
+            resolve(true);
+        });
+        server.closeIdleConnections();
+    });
+}
+
+export type ShutdownTasks = {
+    server: Server;
+    // Ends connections that stay open on their own, such as event streams
+    closeStreams: () => void;
+    // Stop functions returned by the background jobs
+    stopJobs: (() => unknown)[];
+};
+
+// On SIGTERM or SIGINT: stop taking connections, let requests in flight
+// finish, stop the background jobs and close the database pool. A second
+// signal exits right away.
+export function handleShutdownSignals(
+    tasks: ShutdownTasks,
+    options: LifecycleConfig = config.lifecycle,
+) {
+    const shutdown = async (signal: NodeJS.Signals) => {
+        if (shuttingDown) {
+            logger.warn('Second shutdown signal, exiting now', { signal });
+            process.exit(1);
+        }
+        shuttingDown = true;
+        logger.info('Shutting down', { signal });
+        try {
+            const draining = drainServer(tasks.server, options.drainTimeoutMs);
+            tasks.closeStreams();
+            const [drained] = await Promise.all([
+                draining,
+                ...tasks.stopJobs.map((stop) => stop()),
+            ]);
+            if (!drained) {
+                logger.warn(
+                    `Requests still running after ${options.drainTimeoutMs}ms were cut off`,
+                );
+            }
+            await closeDb(options.dbCloseTimeoutSeconds);
+            logger.info('Shutdown complete');
+            process.exit(0);
+        } catch (error) {
+            logger.error('Shutdown failed', { error });
+            process.exit(1);
+        }
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+}
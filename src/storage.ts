@@ -0,0 +1,43 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config, type StorageConfig } from './config.js';
+
+// Keys are generated by the server, never taken from a request
+export type Storage = {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    // Deleting a missing file is not an error
+    delete(key: string): Promise<void>;
+    url(key: string): string;
+};
+
+// Files live under dir and are served from publicUrl, see app.ts. The
+// content type is not stored, static serving derives it from the extension.
+export function createLocalStorage(dir: string, publicUrl: string): Storage {
+    const root = path.resolve(dir);
+    const resolve = (key: string) => {
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) {
+            throw new Error(`Storage key ${key} is outside the storage dir`);
+        }
+        return file;
+    };
+    return {
+        async put(key, data) {
+            const file = resolve(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            await writeFile(file, data);
+        },
+        async delete(key) {
+            await rm(resolve(key), { force: true });
+        },
+        url(key) {
+            return `${publicUrl.replace(/\/$/, '')}/${key}`;
+        },
+    };
+}
+
+export function createStorage(storage: StorageConfig): Storage {
+    return createLocalStorage(storage.dir, storage.publicUrl);
+}
+
+export const storage = createStorage(config.storage);